@@ -27,35 +27,67 @@ export default function MenuScreen() {
             fontSize={20}
           />
 
-          {/* Other modules can be added here later */}
           <GlassyButton
             title="Side Pot"
-            onPress={() => {}}
-            baseColor={ButtonColors.gray}
+            onPress={() => router.push('/side-pot' as Href)}
+            baseColor={ButtonColors.blue}
             width={200}
             height={55}
             fontSize={20}
-            disabled
           />
 
           <GlassyButton
             title="Three X"
-            onPress={() => {}}
-            baseColor={ButtonColors.gray}
+            onPress={() => router.push('/three-x' as Href)}
+            baseColor={ButtonColors.purple}
             width={200}
             height={55}
             fontSize={20}
-            disabled
           />
 
           <GlassyButton
             title="Pot"
-            onPress={() => {}}
-            baseColor={ButtonColors.gray}
+            onPress={() => router.push('/pot-limit' as Href)}
+            baseColor={ButtonColors.orange}
+            width={200}
+            height={55}
+            fontSize={20}
+          />
+
+          <GlassyButton
+            title="Stud"
+            onPress={() => router.push('/stud' as Href)}
+            baseColor={ButtonColors.red}
+            width={200}
+            height={55}
+            fontSize={20}
+          />
+
+          <GlassyButton
+            title="Double Board"
+            onPress={() => router.push('/double-board' as Href)}
+            baseColor={ButtonColors.green}
+            width={200}
+            height={55}
+            fontSize={20}
+          />
+
+          <GlassyButton
+            title="The Nuts"
+            onPress={() => router.push('/nuts' as Href)}
+            baseColor={ButtonColors.blue}
+            width={200}
+            height={55}
+            fontSize={20}
+          />
+
+          <GlassyButton
+            title="Announce"
+            onPress={() => router.push('/announce' as Href)}
+            baseColor={ButtonColors.purple}
             width={200}
             height={55}
             fontSize={20}
-            disabled
           />
         </View>
       </View>
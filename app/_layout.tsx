@@ -17,6 +17,13 @@ export default function RootLayout() {
       <Stack>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
         <Stack.Screen name="hand-reading" options={{ title: 'Hand Reading', headerShown: true }} />
+        <Stack.Screen name="side-pot" options={{ title: 'Side Pot', headerShown: true }} />
+        <Stack.Screen name="three-x" options={{ title: 'Three X', headerShown: true }} />
+        <Stack.Screen name="pot-limit" options={{ title: 'Pot', headerShown: true }} />
+        <Stack.Screen name="stud" options={{ title: 'Stud', headerShown: true }} />
+        <Stack.Screen name="double-board" options={{ title: 'Double Board', headerShown: true }} />
+        <Stack.Screen name="nuts" options={{ title: 'The Nuts', headerShown: true }} />
+        <Stack.Screen name="announce" options={{ title: 'Announce', headerShown: true }} />
         <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
       </Stack>
       <StatusBar style="auto" />
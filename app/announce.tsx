@@ -0,0 +1,565 @@
+// Announce Screen - call the showdown out loud, then compare with the dealer's announcement
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ImageBackground,
+  ScrollView,
+  TouchableOpacity,
+  Platform,
+} from 'react-native';
+import { Stack } from 'expo-router';
+import * as Speech from 'expo-speech';
+
+import { Card } from '@/lib/models/Card';
+import { Deck } from '@/lib/models/Deck';
+import {
+  PlayerHand,
+  RoundStatus,
+  RoundResult,
+  GameVariant,
+  DealSettings,
+  createPlayerHand,
+} from '@/lib/poker/types';
+import { getHandDescription, getLowHandDescription } from '@/lib/poker/HandEvaluator';
+import { resolveShowdown } from '@/lib/poker/showdown';
+import { CASINO, HOUSE_STYLES, HouseStyle, announceShowdown } from '@/lib/poker/announcement';
+import { GAME_VARIANTS, OMAHA_HI_LO, getDeckRanks, getMaxHands } from '@/lib/poker/variants';
+import {
+  loadRoundResults,
+  saveRoundResult,
+  resetStats,
+  getCorrectPercentage,
+  getAverageCompletedTime,
+  formatTime,
+} from '@/lib/storage/roundResults';
+import { CardView } from '@/components/game/CardView';
+import { GlassyButton, ButtonColors } from '@/components/game/GlassyButton';
+
+// Platform-specific card sizes
+const isWeb = Platform.OS === 'web';
+const HOLE_CARD_WIDTH = isWeb ? 44 : 34;
+const HOLE_CARD_HEIGHT = isWeb ? 62 : 48;
+const BOARD_CARD_WIDTH = isWeb ? 60 : 44;
+const BOARD_CARD_HEIGHT = isWeb ? 84 : 62;
+
+// Board games dealt straight to showdown
+const VARIANT_OPTIONS = GAME_VARIANTS.filter((variant) => variant.boardSize > 0 && !variant.discard);
+const PLAYER_COUNT_OPTIONS = [2, 3, 4, 5, 6] as const;
+
+// Cuts off anything still being read, so a new announcement starts straight away
+function speak(text: string) {
+  Speech.stop();
+  Speech.speak(text);
+}
+
+export default function AnnounceScreen() {
+  // Settings state
+  const [selectedVariant, setSelectedVariant] = useState<GameVariant>(OMAHA_HI_LO);
+  const [selectedStyle, setSelectedStyle] = useState<HouseStyle>(CASINO);
+  const [selectedPlayerCount, setSelectedPlayerCount] = useState(4);
+
+  // Game state
+  const [gameStarted, setGameStarted] = useState(false);
+  // Seed and settings behind the current deal, recorded with the round
+  const [dealSettings, setDealSettings] = useState<DealSettings>({});
+  const [hands, setHands] = useState<PlayerHand[]>([]);
+  const [board, setBoard] = useState<Card[]>([]);
+  const [revealed, setRevealed] = useState(false);
+
+  // Timer & stats state
+  const [timerStartTime, setTimerStartTime] = useState<Date | null>(null);
+  const [currentElapsedTime, setCurrentElapsedTime] = useState(0);
+  const [timerActive, setTimerActive] = useState(false);
+  const [roundStatus, setRoundStatus] = useState<RoundStatus>('incomplete');
+  const [roundResults, setRoundResults] = useState<RoundResult[]>([]);
+
+  // Load round results on mount, and stop reading aloud on the way out
+  useEffect(() => {
+    loadRoundResults('announce').then(setRoundResults);
+    return () => {
+      Speech.stop();
+    };
+  }, []);
+
+  // Timer effect
+  useEffect(() => {
+    if (!timerActive || !timerStartTime) return;
+
+    const interval = setInterval(() => {
+      setCurrentElapsedTime(
+        (new Date().getTime() - timerStartTime.getTime()) / 1000
+      );
+    }, 100);
+
+    return () => clearInterval(interval);
+  }, [timerActive, timerStartTime]);
+
+  const announcement = useMemo(
+    () =>
+      hands.length > 0
+        ? announceShowdown(
+            resolveShowdown(hands, board, selectedVariant),
+            selectedVariant,
+            selectedStyle
+          )
+        : '',
+    [hands, board, selectedVariant, selectedStyle]
+  );
+
+  const recordResult = useCallback(
+    (isCorrect: boolean) => {
+      if (!timerActive || !timerStartTime) return;
+      const elapsedTime = (new Date().getTime() - timerStartTime.getTime()) / 1000;
+      const result: RoundResult = {
+        isCorrect,
+        timeTaken: elapsedTime,
+        date: new Date().toISOString(),
+        ...dealSettings,
+      };
+      saveRoundResult(result, 'announce');
+      setRoundResults((prev) => [...prev.slice(-19), result]);
+    },
+    [timerActive, timerStartTime, dealSettings]
+  );
+
+  const startGame = useCallback(() => {
+    // Save incomplete round if timer was running
+    recordResult(false);
+    Speech.stop();
+
+    const deck = new Deck(getDeckRanks(selectedVariant));
+    const numberOfHands = Math.min(selectedPlayerCount, getMaxHands(selectedVariant));
+    const newHands: PlayerHand[] = [];
+    for (let i = 0; i < numberOfHands; i++) {
+      newHands.push(createPlayerHand(deck.dealCards(selectedVariant.holeCards)));
+    }
+    setHands(newHands);
+    setBoard(deck.dealCards(selectedVariant.boardSize));
+    setDealSettings({ seed: deck.seed, variantId: selectedVariant.id, playerCount: numberOfHands });
+
+    // Reset all state
+    setRevealed(false);
+    setRoundStatus('incomplete');
+    setTimerStartTime(new Date());
+    setCurrentElapsedTime(0);
+    setTimerActive(true);
+    setGameStarted(true);
+  }, [selectedVariant, selectedPlayerCount, recordResult]);
+
+  // The trainee grades their own spoken call against the model announcement
+  const gradeAnnouncement = useCallback(
+    (isCorrect: boolean) => {
+      recordResult(isCorrect);
+      setRoundStatus(isCorrect ? 'correct' : 'failed');
+      setTimerActive(false);
+    },
+    [recordResult]
+  );
+
+  const handleResetStats = useCallback(() => {
+    resetStats('announce');
+    setRoundResults([]);
+  }, []);
+
+  // Render settings view
+  const renderSettingsView = () => (
+    <View style={styles.settingsContainer}>
+      {roundResults.length > 0 && (
+        <View style={styles.statsContainer}>
+          <View style={styles.statsRow}>
+            <Text style={styles.statsText}>
+              {getCorrectPercentage(roundResults).toFixed(0)}% correct
+            </Text>
+            <Text style={styles.statsText}>
+              Avg: {formatTime(getAverageCompletedTime(roundResults))}
+            </Text>
+          </View>
+          <Text style={styles.statsSubtext}>({roundResults.length} rounds)</Text>
+        </View>
+      )}
+
+      <Text style={styles.sectionLabel}>Game:</Text>
+      <View style={[styles.optionRow, styles.optionRowWrap]}>
+        {VARIANT_OPTIONS.map((variant) => (
+          <TouchableOpacity
+            key={variant.id}
+            style={[
+              styles.optionButton,
+              styles.optionButtonGame,
+              selectedVariant.id === variant.id && styles.optionButtonSelected,
+            ]}
+            onPress={() => setSelectedVariant(variant)}
+          >
+            <Text style={styles.optionButtonGameText}>{variant.name}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={[styles.sectionLabel, { marginTop: 20 }]}>House style:</Text>
+      <View style={styles.optionRow}>
+        {HOUSE_STYLES.map((style) => (
+          <TouchableOpacity
+            key={style.id}
+            style={[
+              styles.optionButton,
+              styles.optionButtonGame,
+              selectedStyle.id === style.id && styles.optionButtonSelectedOrange,
+            ]}
+            onPress={() => setSelectedStyle(style)}
+          >
+            <Text style={styles.optionButtonGameText}>{style.name}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={[styles.sectionLabel, { marginTop: 20 }]}>Number of players:</Text>
+      <View style={styles.optionRow}>
+        {PLAYER_COUNT_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[
+              styles.optionButton,
+              selectedPlayerCount === option && styles.optionButtonSelected,
+            ]}
+            onPress={() => setSelectedPlayerCount(option)}
+          >
+            <Text style={styles.optionButtonText}>{option}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={{ marginTop: 25 }}>
+        <GlassyButton
+          title="Start"
+          onPress={startGame}
+          baseColor={ButtonColors.green}
+          width={150}
+          height={50}
+          fontSize={20}
+        />
+      </View>
+    </View>
+  );
+
+  // Render game view
+  const renderGameView = () => (
+    <View style={styles.fullGameContainer}>
+      {/* Header */}
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          {roundStatus === 'failed' ? (
+            <Text style={styles.statusFailed}>FAILED</Text>
+          ) : roundStatus === 'correct' ? (
+            <Text style={styles.statusCorrect}>CORRECT</Text>
+          ) : (
+            <Text style={styles.headerTitle}>Announce</Text>
+          )}
+        </View>
+        <Text style={styles.timerText}>{formatTime(currentElapsedTime)}</Text>
+      </View>
+
+      {/* Stats line */}
+      <View style={styles.statsLine}>
+        <Text style={styles.statsLineText}>
+          {selectedVariant.name} | {selectedStyle.name}
+        </Text>
+        {roundResults.length > 0 && (
+          <Text style={styles.statsLineText}>
+            {getCorrectPercentage(roundResults).toFixed(0)}% | Avg:{' '}
+            {formatTime(getAverageCompletedTime(roundResults))}
+          </Text>
+        )}
+      </View>
+
+      <ScrollView contentContainerStyle={styles.gameContent}>
+        {hands.map((hand, handIndex) => (
+          <View key={hand.id} style={styles.handRow}>
+            <Text style={styles.seatLabel}>
+              {selectedStyle.seatLabel} {handIndex + 1}
+            </Text>
+            <View style={styles.handCards}>
+              {hand.cards.map((card) => (
+                <CardView key={card.id} card={card} width={HOLE_CARD_WIDTH} height={HOLE_CARD_HEIGHT} />
+              ))}
+            </View>
+            {revealed && (
+              <Text style={styles.handDescription}>
+                {getHandDescription(hand.cards, board, selectedVariant, 'dealer')}
+                {selectedVariant.isHiLo &&
+                  ` / ${getLowHandDescription(hand.cards, board, selectedVariant)}`}
+              </Text>
+            )}
+          </View>
+        ))}
+
+        {!revealed ? (
+          <>
+            <Text style={styles.promptText}>Announce the winners out loud, then reveal</Text>
+            <GlassyButton
+              title="Reveal"
+              onPress={() => setRevealed(true)}
+              baseColor={ButtonColors.purple}
+              width={200}
+              height={40}
+              fontSize={16}
+            />
+          </>
+        ) : (
+          <View style={styles.announcementBox}>
+            <Text style={styles.announcementText}>{announcement}</Text>
+            <TouchableOpacity onPress={() => speak(announcement)}>
+              <Text style={styles.speakText}>Play</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {revealed && roundStatus === 'incomplete' && (
+          <View style={styles.gradeRow}>
+            <GlassyButton
+              title="I said it"
+              onPress={() => gradeAnnouncement(true)}
+              baseColor={ButtonColors.green}
+              width={140}
+              height={40}
+              fontSize={16}
+            />
+            <GlassyButton
+              title="I missed it"
+              onPress={() => gradeAnnouncement(false)}
+              baseColor={ButtonColors.red}
+              width={140}
+              height={40}
+              fontSize={16}
+            />
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Footer with the board */}
+      <View style={styles.footer}>
+        <View style={styles.boardRow}>
+          {board.map((card) => (
+            <CardView key={card.id} card={card} width={BOARD_CARD_WIDTH} height={BOARD_CARD_HEIGHT} />
+          ))}
+        </View>
+        <GlassyButton
+          title="New Deal"
+          onPress={startGame}
+          baseColor={ButtonColors.blue}
+          width={120}
+          height={40}
+          fontSize={14}
+        />
+      </View>
+    </View>
+  );
+
+  return (
+    <ImageBackground
+      source={require('@/assets/images/felt-background.jpg')}
+      style={styles.container}
+      imageStyle={styles.backgroundImage}
+      resizeMode="cover"
+    >
+      <Stack.Screen
+        options={{
+          title: 'Announce',
+          headerStyle: { backgroundColor: '#1a472a' },
+          headerTintColor: 'white',
+          headerRight: () => (
+            <TouchableOpacity onPress={handleResetStats} style={{ marginRight: 15 }}>
+              <Text style={{ color: 'white' }}>Reset</Text>
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      {!gameStarted && renderSettingsView()}
+      {gameStarted && renderGameView()}
+    </ImageBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    minHeight: Platform.OS === 'web' ? '100%' as any : undefined,
+  },
+  backgroundImage: {
+    width: '100%',
+    height: '100%',
+  },
+  settingsContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 20,
+  },
+  statsContainer: {
+    marginBottom: 30,
+    alignItems: 'center',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 20,
+  },
+  statsText: {
+    fontSize: 18,
+    color: 'rgba(255, 255, 255, 0.9)',
+  },
+  statsSubtext: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: 4,
+  },
+  sectionLabel: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: 'white',
+    marginBottom: 10,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 15,
+  },
+  optionRowWrap: {
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  optionButton: {
+    width: 50,
+    height: 50,
+    backgroundColor: 'rgba(128, 128, 128, 0.6)',
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  optionButtonGame: {
+    width: 110,
+  },
+  optionButtonSelected: {
+    backgroundColor: 'rgba(59, 130, 246, 0.8)',
+  },
+  optionButtonSelectedOrange: {
+    backgroundColor: 'rgba(249, 115, 22, 0.8)',
+  },
+  optionButtonText: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: 'white',
+  },
+  optionButtonGameText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: 'white',
+  },
+  fullGameContainer: {
+    flex: 1,
+    ...(isWeb ? { maxWidth: 600, alignSelf: 'center' as const, width: '100%' } : {}),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 10,
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: 'white',
+  },
+  statusCorrect: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#22c55e',
+  },
+  statusFailed: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#ef4444',
+  },
+  timerText: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: 'white',
+  },
+  statsLine: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 15,
+    paddingBottom: 5,
+  },
+  statsLineText: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  gameContent: {
+    paddingVertical: 20,
+    paddingHorizontal: 15,
+    alignItems: 'center',
+    gap: 15,
+  },
+  handRow: {
+    width: '100%',
+    gap: 4,
+  },
+  seatLabel: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: 'white',
+  },
+  handCards: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  handDescription: {
+    fontSize: isWeb ? 12 : 10,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  promptText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+    textAlign: 'center',
+  },
+  announcementBox: {
+    width: '100%',
+    padding: 12,
+    gap: 8,
+    borderRadius: 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    alignItems: 'center',
+  },
+  announcementText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+    textAlign: 'center',
+  },
+  speakText: {
+    fontSize: 14,
+    color: 'rgba(59, 130, 246, 1)',
+  },
+  gradeRow: {
+    flexDirection: 'row',
+    gap: 15,
+  },
+  boardRow: {
+    flexDirection: 'row',
+    gap: 6,
+    marginBottom: 10,
+  },
+  footer: {
+    paddingVertical: isWeb ? 15 : 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+    alignItems: 'center',
+  },
+});
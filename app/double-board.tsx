@@ -0,0 +1,742 @@
+// Double Board Screen - read every hand against two boards, half the pot each
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ImageBackground,
+  ScrollView,
+  TouchableOpacity,
+  Platform,
+} from 'react-native';
+import { Stack } from 'expo-router';
+
+import { Card } from '@/lib/models/Card';
+import { createSeed } from '@/lib/models/Random';
+import {
+  PlayerHand,
+  HandAnswer,
+  RoundStatus,
+  RoundResult,
+  GameVariant,
+  DealSettings,
+} from '@/lib/poker/types';
+import { isHighWinner, isLowWinner } from '@/lib/poker/showdown';
+import {
+  BOARD_COUNT,
+  dealDoubleBoardHand,
+  resolveDoubleBoard,
+  splitDoubleBoardPot,
+} from '@/lib/poker/doubleBoard';
+import { GAME_VARIANTS, OMAHA_HI_LO } from '@/lib/poker/variants';
+import {
+  loadRoundResults,
+  saveRoundResult,
+  resetStats,
+  getCorrectPercentage,
+  getAverageCompletedTime,
+  formatTime,
+} from '@/lib/storage/roundResults';
+import { CardView } from '@/components/game/CardView';
+import { GlassyButton, ButtonColors } from '@/components/game/GlassyButton';
+
+// Platform-specific card sizes
+const isWeb = Platform.OS === 'web';
+const HOLE_CARD_WIDTH = isWeb ? 60 : 44;
+const HOLE_CARD_HEIGHT = isWeb ? 84 : 62;
+const HOLE_CARD_OFFSET = isWeb ? 34 : 24;
+const BOARD_CARD_WIDTH = isWeb ? 60 : 44;
+const BOARD_CARD_HEIGHT = isWeb ? 84 : 62;
+
+// Full-deck community games; two boards of five leave room for six hands of up to six cards
+const VARIANT_OPTIONS = GAME_VARIANTS.filter(
+  (variant) => variant.boardSize > 0 && !variant.shortDeck && !variant.discard
+);
+const PLAYER_COUNT_OPTIONS = [2, 3, 4, 5, 6] as const;
+
+type BoardAnswers = Map<number, Set<HandAnswer>>;
+
+// Fan six-card hands into the space five cards take
+function getHoleCardOffset(cardCount: number): number {
+  return cardCount <= 5 ? HOLE_CARD_OFFSET : (HOLE_CARD_OFFSET * 4) / (cardCount - 1);
+}
+
+export default function DoubleBoardScreen() {
+  // Settings state
+  const [selectedVariant, setSelectedVariant] = useState<GameVariant>(OMAHA_HI_LO);
+  const [selectedPlayerCount, setSelectedPlayerCount] = useState(4);
+
+  // Game state
+  const [gameStarted, setGameStarted] = useState(false);
+  // Seed and settings behind the current deal, recorded with the round
+  const [dealSettings, setDealSettings] = useState<DealSettings>({});
+  const [hands, setHands] = useState<PlayerHand[]>([]);
+  const [boards, setBoards] = useState<Card[][]>([]);
+  const [amount, setAmount] = useState(0);
+
+  // Answer state, one entry per board
+  const [selectedAnswers, setSelectedAnswers] = useState<BoardAnswers[]>([]);
+  const [noLowSelected, setNoLowSelected] = useState<boolean[]>([]);
+  const [answersChecked, setAnswersChecked] = useState(false);
+
+  // Timer & stats state
+  const [timerStartTime, setTimerStartTime] = useState<Date | null>(null);
+  const [currentElapsedTime, setCurrentElapsedTime] = useState(0);
+  const [timerActive, setTimerActive] = useState(false);
+  const [roundStatus, setRoundStatus] = useState<RoundStatus>('incomplete');
+  const [hadFailureThisRound, setHadFailureThisRound] = useState(false);
+  const [roundResults, setRoundResults] = useState<RoundResult[]>([]);
+
+  // Load round results on mount
+  useEffect(() => {
+    loadRoundResults('doubleBoard').then(setRoundResults);
+  }, []);
+
+  // Timer effect
+  useEffect(() => {
+    if (!timerActive || !timerStartTime) return;
+
+    const interval = setInterval(() => {
+      setCurrentElapsedTime(
+        (new Date().getTime() - timerStartTime.getTime()) / 1000
+      );
+    }, 100);
+
+    return () => clearInterval(interval);
+  }, [timerActive, timerStartTime]);
+
+  // Winners on each board and the chips they take
+  const showdowns = useMemo(
+    () => resolveDoubleBoard(hands, boards, selectedVariant),
+    [hands, boards, selectedVariant]
+  );
+  const split = useMemo(
+    () => splitDoubleBoardPot(amount, hands, boards, selectedVariant),
+    [amount, hands, boards, selectedVariant]
+  );
+
+  const recordResult = useCallback(
+    (isCorrect: boolean) => {
+      if (!timerActive || !timerStartTime) return;
+      const elapsedTime = (new Date().getTime() - timerStartTime.getTime()) / 1000;
+      const result: RoundResult = {
+        isCorrect,
+        timeTaken: elapsedTime,
+        date: new Date().toISOString(),
+        ...dealSettings,
+      };
+      saveRoundResult(result, 'doubleBoard');
+      setRoundResults((prev) => [...prev.slice(-19), result]);
+    },
+    [timerActive, timerStartTime, dealSettings]
+  );
+
+  const startGame = useCallback(() => {
+    // Save incomplete round if timer was running
+    recordResult(false);
+
+    const seed = createSeed();
+    const deal = dealDoubleBoardHand(selectedPlayerCount, selectedVariant, seed);
+    setDealSettings({ seed, variantId: selectedVariant.id, playerCount: selectedPlayerCount });
+    setHands(deal.hands);
+    setBoards(deal.boards);
+    setAmount(deal.amount);
+
+    // Reset all state
+    setSelectedAnswers(deal.boards.map(() => new Map()));
+    setNoLowSelected(deal.boards.map(() => false));
+    setAnswersChecked(false);
+    setRoundStatus('incomplete');
+    setHadFailureThisRound(false);
+    setTimerStartTime(new Date());
+    setCurrentElapsedTime(0);
+    setTimerActive(true);
+    setGameStarted(true);
+  }, [selectedPlayerCount, selectedVariant, recordResult]);
+
+  const selectAnswer = useCallback(
+    (boardIndex: number, handIndex: number, answer: HandAnswer) => {
+      setSelectedAnswers((prev) =>
+        prev.map((answers, i) => {
+          if (i !== boardIndex) return answers;
+          const newMap = new Map(answers);
+          const current = new Set(newMap.get(handIndex) ?? []);
+          if (current.has(answer)) {
+            current.delete(answer);
+          } else {
+            current.add(answer);
+          }
+          newMap.set(handIndex, current);
+          return newMap;
+        })
+      );
+      setAnswersChecked(false);
+    },
+    []
+  );
+
+  const toggleNoLow = useCallback((boardIndex: number) => {
+    setNoLowSelected((prev) => prev.map((selected, i) => (i === boardIndex ? !selected : selected)));
+    setAnswersChecked(false);
+  }, []);
+
+  const isAnswerCorrect = useCallback(
+    (boardIndex: number, handIndex: number, answer: HandAnswer): boolean => {
+      const showdown = showdowns[boardIndex];
+      const isSelected = selectedAnswers[boardIndex]?.get(handIndex)?.has(answer) ?? false;
+      const wins =
+        answer === 'hi' ? isHighWinner(showdown, handIndex) : isLowWinner(showdown, handIndex);
+      return isSelected === wins;
+    },
+    [showdowns, selectedAnswers]
+  );
+
+  const isNoLowCorrect = useCallback(
+    (boardIndex: number): boolean =>
+      noLowSelected[boardIndex] === (showdowns[boardIndex].lowWinners.length === 0),
+    [noLowSelected, showdowns]
+  );
+
+  const checkAnswers = useCallback(() => {
+    setAnswersChecked(true);
+
+    const allCorrect = boards.every(
+      (_, boardIndex) =>
+        hands.every(
+          (_, handIndex) =>
+            isAnswerCorrect(boardIndex, handIndex, 'hi') &&
+            (!selectedVariant.isHiLo || isAnswerCorrect(boardIndex, handIndex, 'low'))
+        ) &&
+        (!selectedVariant.isHiLo || isNoLowCorrect(boardIndex))
+    );
+
+    if (allCorrect) {
+      setRoundStatus('correct');
+      recordResult(!hadFailureThisRound);
+      setTimerActive(false);
+    } else {
+      setRoundStatus('failed');
+      setHadFailureThisRound(true);
+    }
+  }, [
+    boards,
+    hands,
+    isAnswerCorrect,
+    isNoLowCorrect,
+    selectedVariant,
+    recordResult,
+    hadFailureThisRound,
+  ]);
+
+  const handleResetStats = useCallback(() => {
+    resetStats('doubleBoard');
+    setRoundResults([]);
+  }, []);
+
+  const getButtonColor = (boardIndex: number, handIndex: number, answer: HandAnswer): string => {
+    const isSelected = selectedAnswers[boardIndex]?.get(handIndex)?.has(answer) ?? false;
+    if (!answersChecked) {
+      return isSelected ? 'rgba(59, 130, 246, 0.8)' : 'rgba(128, 128, 128, 0.6)';
+    }
+    const isCorrect = isAnswerCorrect(boardIndex, handIndex, answer);
+    if (isSelected || !isCorrect) {
+      return isCorrect ? 'rgba(34, 197, 94, 0.8)' : 'rgba(239, 68, 68, 0.8)';
+    }
+    return 'rgba(128, 128, 128, 0.6)';
+  };
+
+  const getNoLowButtonColor = (boardIndex: number): string => {
+    const isSelected = noLowSelected[boardIndex] ?? false;
+    if (!answersChecked) {
+      return isSelected ? 'rgba(59, 130, 246, 0.8)' : 'rgba(128, 128, 128, 0.6)';
+    }
+    const isCorrect = isNoLowCorrect(boardIndex);
+    if (isSelected || !isCorrect) {
+      return isCorrect ? 'rgba(34, 197, 94, 0.8)' : 'rgba(239, 68, 68, 0.8)';
+    }
+    return 'rgba(128, 128, 128, 0.6)';
+  };
+
+  const getBoardSummary = (boardIndex: number): string => {
+    const result = split.boards[boardIndex];
+    const high = result.highWinners.map((i) => `Seat ${i + 1}`).join(' & ');
+    if (!selectedVariant.isHiLo) return `Board ${boardIndex + 1} (${result.amount}): ${high}`;
+    const low =
+      result.lowWinners.length === 0
+        ? 'No low'
+        : `Low ${result.lowWinners.map((i) => `Seat ${i + 1}`).join(' & ')}`;
+    return `Board ${boardIndex + 1} (${result.amount}): High ${high} | ${low}`;
+  };
+
+  // Render settings view
+  const renderSettingsView = () => (
+    <View style={styles.settingsContainer}>
+      {roundResults.length > 0 && (
+        <View style={styles.statsContainer}>
+          <View style={styles.statsRow}>
+            <Text style={styles.statsText}>
+              {getCorrectPercentage(roundResults).toFixed(0)}% correct
+            </Text>
+            <Text style={styles.statsText}>
+              Avg: {formatTime(getAverageCompletedTime(roundResults))}
+            </Text>
+          </View>
+          <Text style={styles.statsSubtext}>({roundResults.length} rounds)</Text>
+        </View>
+      )}
+
+      <Text style={styles.sectionLabel}>Game:</Text>
+      <View style={[styles.optionRow, styles.optionRowWrap]}>
+        {VARIANT_OPTIONS.map((variant) => (
+          <TouchableOpacity
+            key={variant.id}
+            style={[
+              styles.optionButton,
+              styles.optionButtonGame,
+              selectedVariant.id === variant.id && styles.optionButtonSelected,
+            ]}
+            onPress={() => setSelectedVariant(variant)}
+          >
+            <Text style={styles.optionButtonGameText}>{variant.name}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={[styles.sectionLabel, { marginTop: 20 }]}>Number of players:</Text>
+      <View style={styles.optionRow}>
+        {PLAYER_COUNT_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[
+              styles.optionButton,
+              styles.optionButtonSmall,
+              selectedPlayerCount === option && styles.optionButtonSelectedOrange,
+            ]}
+            onPress={() => setSelectedPlayerCount(option)}
+          >
+            <Text style={styles.optionButtonText}>{option}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={{ marginTop: 25 }}>
+        <GlassyButton
+          title="Start"
+          onPress={startGame}
+          baseColor={ButtonColors.green}
+          width={150}
+          height={50}
+          fontSize={20}
+        />
+      </View>
+    </View>
+  );
+
+  // Render game view
+  const renderGameView = () => (
+    <View style={styles.fullGameContainer}>
+      {/* Header */}
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          {hadFailureThisRound ? (
+            <Text style={styles.statusFailed}>FAILED</Text>
+          ) : roundStatus === 'correct' ? (
+            <Text style={styles.statusCorrect}>CORRECT</Text>
+          ) : (
+            <Text style={styles.headerTitle}>Double Board</Text>
+          )}
+        </View>
+        <Text style={styles.timerText}>{formatTime(currentElapsedTime)}</Text>
+      </View>
+
+      {/* Stats line */}
+      <View style={styles.statsLine}>
+        <Text style={styles.statsLineText}>
+          {selectedVariant.name} | Pot {amount}
+        </Text>
+        {roundResults.length > 0 && (
+          <Text style={styles.statsLineText}>
+            {getCorrectPercentage(roundResults).toFixed(0)}% | Avg:{' '}
+            {formatTime(getAverageCompletedTime(roundResults))}
+          </Text>
+        )}
+      </View>
+
+      {/* Scrollable hands area */}
+      <ScrollView style={styles.handsScroll} contentContainerStyle={styles.handsContent}>
+        {hands.map((hand, handIndex) => (
+          <View key={hand.id} style={styles.handRow}>
+            <Text style={styles.seatText}>{handIndex + 1}</Text>
+            <View style={styles.handCardsContainer}>
+              <View style={styles.handCards}>
+                {hand.cards.map((card, cardIndex) => (
+                  <View
+                    key={card.id}
+                    style={[
+                      styles.handCardWrapper,
+                      { left: cardIndex * getHoleCardOffset(hand.cards.length) },
+                    ]}
+                  >
+                    <CardView card={card} width={HOLE_CARD_WIDTH} height={HOLE_CARD_HEIGHT} />
+                  </View>
+                ))}
+              </View>
+              {roundStatus === 'correct' && (
+                <Text style={styles.payoutText}>+{split.payouts[handIndex]}</Text>
+              )}
+            </View>
+
+            {/* One row of Hi/Lo buttons per board */}
+            <View style={styles.answerButtons}>
+              {boards.map((_, boardIndex) => (
+                <View key={boardIndex} style={styles.answerRow}>
+                  <Text style={styles.boardLabel}>{boardIndex + 1}</Text>
+                  <TouchableOpacity
+                    style={[
+                      styles.answerButton,
+                      { backgroundColor: getButtonColor(boardIndex, handIndex, 'hi') },
+                    ]}
+                    onPress={() => selectAnswer(boardIndex, handIndex, 'hi')}
+                  >
+                    <Text style={styles.answerButtonText}>Hi</Text>
+                  </TouchableOpacity>
+                  {selectedVariant.isHiLo && (
+                    <TouchableOpacity
+                      style={[
+                        styles.answerButton,
+                        { backgroundColor: getButtonColor(boardIndex, handIndex, 'low') },
+                      ]}
+                      onPress={() => selectAnswer(boardIndex, handIndex, 'low')}
+                    >
+                      <Text style={styles.answerButtonText}>Low</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))}
+            </View>
+          </View>
+        ))}
+
+        {selectedVariant.isHiLo && (
+          <View style={styles.noLowRow}>
+            {boards.map((_, boardIndex) => (
+              <TouchableOpacity
+                key={boardIndex}
+                style={[styles.noLowButton, { backgroundColor: getNoLowButtonColor(boardIndex) }]}
+                onPress={() => toggleNoLow(boardIndex)}
+              >
+                <Text style={styles.noLowButtonText}>No Low {boardIndex + 1}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {roundStatus === 'correct' &&
+          boards.map((_, boardIndex) => (
+            <Text key={boardIndex} style={styles.summaryText}>
+              {getBoardSummary(boardIndex)}
+            </Text>
+          ))}
+
+        {roundStatus !== 'correct' && (
+          <View style={styles.actionButtonContainer}>
+            <GlassyButton
+              title="Check Winners"
+              onPress={checkAnswers}
+              baseColor={ButtonColors.green}
+              width={200}
+              height={40}
+              fontSize={16}
+            />
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Footer with both boards stacked */}
+      <View style={styles.footer}>
+        {boards.slice(0, BOARD_COUNT).map((board, boardIndex) => (
+          <View key={boardIndex} style={styles.boardRow}>
+            <Text style={styles.boardLabel}>{boardIndex + 1}</Text>
+            <View style={styles.communityCards}>
+              {board.map((card) => (
+                <CardView
+                  key={card.id}
+                  card={card}
+                  width={BOARD_CARD_WIDTH}
+                  height={BOARD_CARD_HEIGHT}
+                />
+              ))}
+            </View>
+          </View>
+        ))}
+        <GlassyButton
+          title="New Deal"
+          onPress={startGame}
+          baseColor={ButtonColors.blue}
+          width={120}
+          height={40}
+          fontSize={14}
+        />
+      </View>
+    </View>
+  );
+
+  return (
+    <ImageBackground
+      source={require('@/assets/images/felt-background.jpg')}
+      style={styles.container}
+      imageStyle={styles.backgroundImage}
+      resizeMode="cover"
+    >
+      <Stack.Screen
+        options={{
+          title: 'Double Board',
+          headerStyle: { backgroundColor: '#1a472a' },
+          headerTintColor: 'white',
+          headerRight: () => (
+            <TouchableOpacity onPress={handleResetStats} style={{ marginRight: 15 }}>
+              <Text style={{ color: 'white' }}>Reset</Text>
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      {!gameStarted && renderSettingsView()}
+      {gameStarted && renderGameView()}
+    </ImageBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    minHeight: Platform.OS === 'web' ? '100%' as any : undefined,
+  },
+  backgroundImage: {
+    width: '100%',
+    height: '100%',
+  },
+  settingsContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 20,
+  },
+  statsContainer: {
+    marginBottom: 30,
+    alignItems: 'center',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 20,
+  },
+  statsText: {
+    fontSize: 18,
+    color: 'rgba(255, 255, 255, 0.9)',
+  },
+  statsSubtext: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: 4,
+  },
+  sectionLabel: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: 'white',
+    marginBottom: 10,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 15,
+  },
+  optionRowWrap: {
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  optionButton: {
+    width: 60,
+    height: 50,
+    backgroundColor: 'rgba(128, 128, 128, 0.6)',
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  optionButtonSmall: {
+    width: 50,
+    height: 45,
+  },
+  optionButtonGame: {
+    width: 110,
+  },
+  optionButtonSelected: {
+    backgroundColor: 'rgba(59, 130, 246, 0.8)',
+  },
+  optionButtonSelectedOrange: {
+    backgroundColor: 'rgba(249, 115, 22, 0.8)',
+  },
+  optionButtonText: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: 'white',
+  },
+  optionButtonGameText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: 'white',
+  },
+  fullGameContainer: {
+    flex: 1,
+    ...(isWeb ? { maxWidth: 600, alignSelf: 'center' as const, width: '100%' } : {}),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 10,
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: 'white',
+  },
+  statusCorrect: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#22c55e',
+  },
+  statusFailed: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#ef4444',
+  },
+  timerText: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: 'white',
+  },
+  statsLine: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 15,
+    paddingBottom: 5,
+  },
+  statsLineText: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  handsScroll: {
+    flex: 1,
+  },
+  handsContent: {
+    paddingTop: 20,
+    paddingBottom: 20,
+    alignItems: 'center',
+  },
+  handRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    marginBottom: 15,
+    width: '100%',
+  },
+  seatText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: 'white',
+    width: 24,
+  },
+  handCardsContainer: {
+    width: isWeb ? 200 : 145,
+    height: isWeb ? 100 : 80,
+    justifyContent: 'center',
+  },
+  handCards: {
+    position: 'relative',
+    height: isWeb ? 84 : 62,
+  },
+  handCardWrapper: {
+    position: 'absolute',
+  },
+  payoutText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#22c55e',
+  },
+  answerButtons: {
+    flex: 1,
+    gap: 5,
+  },
+  answerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 6,
+  },
+  boardLabel: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: 'rgba(255, 255, 255, 0.8)',
+    width: 14,
+    textAlign: 'center',
+  },
+  answerButton: {
+    width: isWeb ? 60 : 50,
+    height: isWeb ? 36 : 32,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  answerButtonText: {
+    fontSize: isWeb ? 16 : 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  noLowRow: {
+    flexDirection: 'row',
+    gap: 15,
+    marginTop: 10,
+  },
+  noLowButton: {
+    width: 100,
+    height: 40,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  noLowButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  summaryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+    marginTop: 5,
+  },
+  actionButtonContainer: {
+    alignItems: 'center',
+    marginVertical: 10,
+  },
+  footer: {
+    paddingVertical: isWeb ? 15 : 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+    alignItems: 'center',
+    gap: isWeb ? 10 : 6,
+  },
+  boardRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  communityCards: {
+    flexDirection: 'row',
+    gap: isWeb ? 12 : 8,
+  },
+});
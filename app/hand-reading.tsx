@@ -1,6 +1,6 @@
 // Hand Reading Screen - matching Swift HiLowView
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -18,24 +18,44 @@ import Animated, {
   Easing,
 } from 'react-native-reanimated';
 
-import { Card, rankToValue } from '@/lib/models/Card';
+import { Card, isSameCard, rankToValue } from '@/lib/models/Card';
 import { Deck } from '@/lib/models/Deck';
+import { randomInt } from '@/lib/models/Random';
 import {
   PlayerHand,
   HandAnswer,
   RoundStatus,
   RevealStage,
   RoundResult,
+  GameVariant,
+  JokerRule,
+  DescriptionVerbosity,
+  DealSettings,
   createPlayerHand,
 } from '@/lib/poker/types';
 import {
-  findBestHand,
-  compareHighHands,
-  compareLowHands,
-  areLowHandsEqual,
   getHandDescription,
   getLowHandDescription,
 } from '@/lib/poker/HandEvaluator';
+import { resolveShowdown, isHighWinner, isLowWinner } from '@/lib/poker/showdown';
+import { HandEquity, StreetEquity, calculateStreetEquities } from '@/lib/poker/equity';
+import { describeCounterfeit, findCounterfeits } from '@/lib/poker/counterfeit';
+import { MistakeExplanation, explainMistake } from '@/lib/poker/explanation';
+import {
+  GAME_VARIANTS,
+  FIVE_CARD_PLO_HI_LO,
+  ANY_LOW,
+  getDeckRanks,
+  getJokerCount,
+  getLowQualifierName,
+  getMaxHands,
+  getPlayedVariant,
+  getRevealStages,
+  picksHoleCards,
+  playsLow,
+  supportsJoker,
+  withJoker,
+} from '@/lib/poker/variants';
 import {
   loadRoundResults,
   saveRoundResult,
@@ -46,6 +66,8 @@ import {
 } from '@/lib/storage/roundResults';
 import { CardView } from '@/components/game/CardView';
 import { GlassyButton, ButtonColors } from '@/components/game/GlassyButton';
+import { OutsQuiz } from '@/components/game/OutsQuiz';
+import { MistakeDetails } from '@/components/game/MistakeDetails';
 
 // Platform-specific card sizes
 const isWeb = Platform.OS === 'web';
@@ -57,13 +79,57 @@ const COMMUNITY_CARD_HEIGHT = isWeb ? 112 : 77;
 const STAGE_CARD_WIDTH = isWeb ? 100 : 80;
 const STAGE_CARD_HEIGHT = isWeb ? 140 : 112;
 
-const CARD_COUNT_OPTIONS = [2, 4, 5] as const;
 const PLAYER_COUNT_OPTIONS = [2, 3, 4, 5, 6, 7, 8] as const;
+const JOKER_OPTIONS: { value: JokerRule | null; label: string }[] = [
+  { value: null, label: 'None' },
+  { value: 'bug', label: 'Bug' },
+  { value: 'wild', label: 'Wild' },
+];
+const DESCRIPTION_OPTIONS: { value: DescriptionVerbosity; label: string }[] = [
+  { value: 'short', label: 'Short' },
+  { value: 'dealer', label: 'Dealer' },
+  { value: 'full', label: 'Full' },
+];
+
+const LOW_QUALIFIER_OPTIONS: { value: number; label: string }[] = [
+  { value: 8, label: '8' },
+  { value: 9, label: '9' },
+  { value: ANY_LOW, label: 'Any' },
+];
+
+// Answers match by rank so either of two equal cards counts; the joker only matches itself
+function getRankKey(card: Card): string {
+  return card.isJoker ? 'Joker' : card.rank;
+}
+
+// What the joker stands for in an evaluated hand, if it plays
+function getJokerSubstitute(bestHand: Card[]): Card | undefined {
+  return bestHand.find((card) => card.isJoker);
+}
+
+function formatPercent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+function formatEquity(equity: HandEquity, isHiLo: boolean): string {
+  return isHiLo
+    ? `Hi ${formatPercent(equity.high)} Lo ${formatPercent(equity.low)} Scoop ${formatPercent(equity.scoop)}`
+    : `${formatPercent(equity.high)} (scoop ${formatPercent(equity.scoop)})`;
+}
+
+// Fan bigger hands (Razz deals seven) into the space five cards take
+function getHoleCardOffset(cardCount: number): number {
+  return cardCount <= 5 ? HOLE_CARD_OFFSET : (HOLE_CARD_OFFSET * 4) / (cardCount - 1);
+}
 
 export default function HandReadingScreen() {
   // Settings state
-  const [selectedCardCount, setSelectedCardCount] = useState<2 | 4 | 5>(5);
+  const [selectedVariant, setSelectedVariant] = useState<GameVariant>(FIVE_CARD_PLO_HI_LO);
   const [selectedPlayerCount, setSelectedPlayerCount] = useState(5);
+  const [selectedLowQualifier, setSelectedLowQualifier] = useState(8);
+  const [selectedVerbosity, setSelectedVerbosity] = useState<DescriptionVerbosity>('short');
+  // Hands are read as dealt, or as left after the Pineapple discard
+  const playedVariant = useMemo(() => getPlayedVariant(selectedVariant), [selectedVariant]);
 
   // Game state
   const [gameStarted, setGameStarted] = useState(false);
@@ -71,6 +137,18 @@ export default function HandReadingScreen() {
   const deckRef = useRef(new Deck());
   const [hands, setHands] = useState<PlayerHand[]>([]);
   const [communityCards, setCommunityCards] = useState<Card[]>([]);
+  // Card index each hand throws away in the discard stage
+  const [discards, setDiscards] = useState<Map<number, number>>(new Map());
+  // Set once the whole board has been shown, so a redeal skips straight past it
+  const [boardRevealed, setBoardRevealed] = useState(false);
+  const [showOutsQuiz, setShowOutsQuiz] = useState(false);
+  // Seeds and settings behind the current deal, recorded with the round
+  const [dealSettings, setDealSettings] = useState<DealSettings>({});
+  const [redealSeed, setRedealSeed] = useState<number | undefined>(undefined);
+  // Why the last wrong Hi/Low pick lost, until dismissed
+  const [mistake, setMistake] = useState<MistakeExplanation | null>(null);
+  // How far ahead each hand was on every street; null while it is being worked out
+  const [streetEquities, setStreetEquities] = useState<StreetEquity[] | null>([]);
 
   // Selection state
   const [selectedAnswers, setSelectedAnswers] = useState<Map<number, Set<HandAnswer>>>(new Map());
@@ -116,27 +194,39 @@ export default function HandReadingScreen() {
         isCorrect: false,
         timeTaken: elapsedTime,
         date: new Date().toISOString(),
+        lowQualifier: playedVariant.isHiLo ? selectedLowQualifier : undefined,
+        ...dealSettings,
+        redealSeed,
       };
       saveRoundResult(result);
       setRoundResults((prev) => [...prev.slice(-19), result]);
     }
 
     // Reset deck and deal
-    const deck = new Deck();
+    const deck = new Deck(getDeckRanks(selectedVariant), getJokerCount(selectedVariant));
     deckRef.current = deck;
+    setDealSettings({
+      seed: deck.seed,
+      variantId: selectedVariant.id,
+      playerCount: selectedPlayerCount,
+      joker: selectedVariant.joker ?? undefined,
+    });
+    setRedealSeed(undefined);
 
     // Deal community cards
-    const newCommunityCards = deck.dealCards(5);
+    const newCommunityCards = deck.dealCards(selectedVariant.boardSize);
     setCommunityCards(newCommunityCards);
 
     // Deal hands
-    const numberOfHands =
+    const numberOfHands = Math.min(
       selectedPlayerCount === 2
         ? 2
-        : Math.floor(Math.random() * (selectedPlayerCount - 1)) + 2;
+        : randomInt(deck.random, 2, selectedPlayerCount),
+      getMaxHands(selectedVariant)
+    );
     const newHands: PlayerHand[] = [];
     for (let i = 0; i < numberOfHands; i++) {
-      const cards = deck.dealCards(selectedCardCount);
+      const cards = deck.dealCards(selectedVariant.holeCards);
       newHands.push(createPlayerHand(cards));
     }
     setHands(newHands);
@@ -152,15 +242,36 @@ export default function HandReadingScreen() {
     setShowingResults(false);
     setRoundStatus('incomplete');
     setHadFailureThisRound(false);
-    setRevealStage('ready');
-    setTimerActive(false);
+    setDiscards(new Map());
+    setBoardRevealed(false);
+    setShowOutsQuiz(false);
+    setMistake(null);
     setCurrentElapsedTime(0);
+    if (selectedVariant.boardSize === 0) {
+      // Nothing to reveal without a board - go straight to reading hands
+      setRevealStage('fullGame');
+      setTimerStartTime(new Date());
+      setTimerActive(true);
+    } else {
+      setRevealStage('ready');
+      setTimerActive(false);
+    }
     setGameStarted(true);
-  }, [selectedCardCount, selectedPlayerCount, timerActive, timerStartTime]);
+  }, [
+    selectedVariant,
+    selectedPlayerCount,
+    timerActive,
+    timerStartTime,
+    playedVariant,
+    selectedLowQualifier,
+    dealSettings,
+    redealSeed,
+  ]);
 
   const redealHands = useCallback(() => {
     // Keep community cards, deal new hands
-    const deck = new Deck();
+    const deck = new Deck(getDeckRanks(selectedVariant), getJokerCount(selectedVariant));
+    setRedealSeed(deck.seed);
 
     // Remove community cards from deck
     for (const card of communityCards) {
@@ -169,13 +280,15 @@ export default function HandReadingScreen() {
     deckRef.current = deck;
 
     // Deal new hands
-    const numberOfHands =
+    const numberOfHands = Math.min(
       selectedPlayerCount === 2
         ? 2
-        : Math.floor(Math.random() * (selectedPlayerCount - 1)) + 2;
+        : randomInt(deck.random, 2, selectedPlayerCount),
+      getMaxHands(selectedVariant)
+    );
     const newHands: PlayerHand[] = [];
     for (let i = 0; i < numberOfHands; i++) {
-      const cards = deck.dealCards(selectedCardCount);
+      const cards = deck.dealCards(selectedVariant.holeCards);
       newHands.push(createPlayerHand(cards));
     }
     setHands(newHands);
@@ -191,147 +304,145 @@ export default function HandReadingScreen() {
     setShowingResults(false);
     setRoundStatus('incomplete');
     setHadFailureThisRound(false);
+    setDiscards(new Map());
+    setMistake(null);
+    setCurrentElapsedTime(0);
+
+    if (selectedVariant.discard) {
+      // New hands have to discard before they can be read
+      setRevealStage('discard');
+      setTimerActive(false);
+      return;
+    }
 
     // Restart timer
     setTimerStartTime(new Date());
-    setCurrentElapsedTime(0);
     setTimerActive(true);
-  }, [communityCards, selectedCardCount, selectedPlayerCount]);
+  }, [communityCards, selectedVariant, selectedPlayerCount]);
 
   const advanceRevealStage = useCallback(() => {
-    if (!gameStarted) return;
-
-    switch (revealStage) {
-      case 'ready':
-        setRevealStage('flop');
-        break;
-      case 'flop':
-        setRevealStage('turn');
-        break;
-      case 'turn':
-        setRevealStage('river');
-        break;
-      case 'river':
-        setRevealStage('fullGame');
-        setTimerStartTime(new Date());
-        setCurrentElapsedTime(0);
-        setTimerActive(true);
-        break;
-      case 'fullGame':
-        // Do nothing
-        break;
+    if (!gameStarted || revealStage === 'fullGame') return;
+
+    if (revealStage === 'discard') {
+      // Every hand has to throw a card away before play continues
+      if (discards.size < hands.length) return;
+      setHands((prev) =>
+        prev.map((hand, handIndex) => ({
+          ...hand,
+          cards: hand.cards.filter((_, cardIndex) => cardIndex !== discards.get(handIndex)),
+        }))
+      );
     }
-  }, [gameStarted, revealStage]);
 
-  const checkAnswer = useCallback(
-    (handIndex: number, answer: HandAnswer): boolean => {
-      const allEvaluations = hands.map((hand) =>
-        findBestHand(hand.cards, communityCards, selectedCardCount)
-      );
-      const currentEval = allEvaluations[handIndex];
-
-      if (answer === 'hi') {
-        // Find the best high hand
-        const bestHighRank = Math.max(...allEvaluations.map((e) => e.bestHighRank));
-        if (currentEval.bestHighRank !== bestHighRank) return false;
-
-        // Get all hands with best rank
-        const handsWithBestRank = allEvaluations
-          .map((e, i) => ({ eval: e, index: i }))
-          .filter((e) => e.eval.bestHighRank === bestHighRank);
-
-        if (handsWithBestRank.length === 1) return true;
-
-        // Find actual winner
-        let bestHandIndex = handsWithBestRank[0].index;
-        for (let i = 1; i < handsWithBestRank.length; i++) {
-          const challenger = handsWithBestRank[i];
-          const comparison = compareHighHands(
-            allEvaluations[challenger.index].bestHighHand,
-            allEvaluations[bestHandIndex].bestHighHand,
-            bestHighRank
-          );
-          if (comparison < 0) {
-            bestHandIndex = challenger.index;
-          }
-        }
+    setShowOutsQuiz(false);
+    const stages = getRevealStages(selectedVariant);
+    const nextStage = boardRevealed ? 'fullGame' : stages[stages.indexOf(revealStage) + 1];
+    setRevealStage(nextStage);
+    if (nextStage === 'fullGame') {
+      setBoardRevealed(true);
+      setTimerStartTime(new Date());
+      setCurrentElapsedTime(0);
+      setTimerActive(true);
+    }
+  }, [gameStarted, revealStage, discards, hands, selectedVariant, boardRevealed]);
 
-        // Check if current hand equals best
-        const comparison = compareHighHands(
-          currentEval.bestHighHand,
-          allEvaluations[bestHandIndex].bestHighHand,
-          bestHighRank
-        );
-        return comparison === 0;
+  const selectDiscard = useCallback((handIndex: number, cardIndex: number) => {
+    setDiscards((prev) => {
+      const newMap = new Map(prev);
+      if (newMap.get(handIndex) === cardIndex) {
+        newMap.delete(handIndex);
       } else {
-        // Low hand logic
-        const handsWithLows = allEvaluations.filter((e) => e.bestLowHand !== null);
-        if (handsWithLows.length === 0) return false;
-        if (!currentEval.bestLowHand) return false;
-
-        // Find best low
-        let bestLow = handsWithLows[0].bestLowHand!;
-        for (const e of handsWithLows) {
-          if (e.bestLowHand && compareLowHands(e.bestLowHand, bestLow) < 0) {
-            bestLow = e.bestLowHand;
-          }
-        }
-
-        return areLowHandsEqual(currentEval.bestLowHand, bestLow);
+        newMap.set(handIndex, cardIndex);
       }
+      return newMap;
+    });
+  }, []);
+
+  // Winners for the current deal, shared by every answer check
+  const showdown = useMemo(
+    () => resolveShowdown(hands, communityCards, playedVariant, selectedLowQualifier),
+    [hands, communityCards, playedVariant, selectedLowQualifier]
+  );
+
+  // Board the outs quiz works from, kept stable so re-renders don't rerun its search
+  const outsBoard = useMemo(
+    () => communityCards.slice(0, revealStage === 'turn' ? 4 : 3),
+    [communityCards, revealStage]
+  );
+
+  // Street equities are worked out once the round is read. Big tables take a moment
+  // to run out, so the work waits until the correct answer has been drawn
+  useEffect(() => {
+    if (roundStatus !== 'correct') {
+      setStreetEquities([]);
+      return;
+    }
+
+    setStreetEquities(null);
+    const timeout = setTimeout(() => {
+      setStreetEquities(
+        calculateStreetEquities(hands, communityCards, playedVariant, {
+          lowQualifier: selectedLowQualifier,
+        })
+      );
+    }, 50);
+    return () => clearTimeout(timeout);
+  }, [roundStatus, hands, communityCards, playedVariant, selectedLowQualifier]);
+
+  // Lows the turn or river counterfeited, explained once the round is read
+  const counterfeitNotes = useMemo(
+    () =>
+      roundStatus === 'correct'
+        ? hands.map((hand) =>
+            findCounterfeits(hand.cards, communityCards, playedVariant, selectedLowQualifier).map(
+              describeCounterfeit
+            )
+          )
+        : [],
+    [roundStatus, hands, communityCards, playedVariant, selectedLowQualifier]
+  );
+
+  const checkAnswer = useCallback(
+    (handIndex: number, answer: HandAnswer): boolean => {
+      return answer === 'hi'
+        ? isHighWinner(showdown, handIndex)
+        : isLowWinner(showdown, handIndex);
     },
-    [hands, communityCards, selectedCardCount]
+    [showdown]
   );
 
   const checkNoLowAnswer = useCallback((): boolean => {
-    const allEvaluations = hands.map((hand) =>
-      findBestHand(hand.cards, communityCards, selectedCardCount)
-    );
-    return !allEvaluations.some((e) => e.bestLowHand !== null);
-  }, [hands, communityCards, selectedCardCount]);
+    return !showdown.evaluations.some((e) => e.bestLowHand !== null);
+  }, [showdown]);
 
   const getWinningCommunityCards = useCallback((): Card[] | null => {
-    const allEvaluations = hands.map((hand) =>
-      findBestHand(hand.cards, communityCards, selectedCardCount)
-    );
-
-    // Find best high hand
-    let bestEval = allEvaluations[0];
-    for (const eval_ of allEvaluations) {
-      if (eval_.bestHighRank > bestEval.bestHighRank) {
-        bestEval = eval_;
-      } else if (eval_.bestHighRank === bestEval.bestHighRank) {
-        if (compareHighHands(eval_.bestHighHand, bestEval.bestHighHand, eval_.bestHighRank) < 0) {
-          bestEval = eval_;
-        }
-      }
-    }
+    if (showdown.highWinners.length === 0) return null;
 
     // Get community cards from best hand
     const communityCardsInWinning: Card[] = [];
-    for (const card of bestEval.bestHighHand) {
-      if (communityCards.some((c) => c.rank === card.rank && c.suit === card.suit)) {
+    for (const card of showdown.highWinners[0].cards) {
+      if (communityCards.some((c) => isSameCard(c, card))) {
         communityCardsInWinning.push(card);
       }
     }
 
-    if (selectedCardCount === 2) {
-      return communityCardsInWinning.length === 3 || communityCardsInWinning.length === 4
-        ? communityCardsInWinning
-        : null;
-    }
-    return communityCardsInWinning.length === 3 ? communityCardsInWinning : null;
-  }, [hands, communityCards, selectedCardCount]);
+    // The board supplies whatever the hole cards don't
+    const boardCardsUsed = communityCardsInWinning.length;
+    return boardCardsUsed >= 5 - playedVariant.maxHoleCardsUsed &&
+      boardCardsUsed <= 5 - playedVariant.minHoleCardsUsed
+      ? communityCardsInWinning
+      : null;
+  }, [showdown, communityCards, playedVariant]);
 
   const getCorrectHoleCardIndices = useCallback(
     (handIndex: number): Set<number> => {
       const hand = hands[handIndex];
-      const evaluation = findBestHand(hand.cards, communityCards, selectedCardCount);
+      const evaluation = showdown.evaluations[handIndex];
 
       // Find hole cards in best hand
       const holeCardsInBest: Card[] = [];
       for (const card of evaluation.bestHighHand) {
-        if (hand.cards.some((c) => c.rank === card.rank && c.suit === card.suit)) {
+        if (hand.cards.some((c) => isSameCard(c, card))) {
           holeCardsInBest.push(card);
         }
       }
@@ -339,19 +450,19 @@ export default function HandReadingScreen() {
       // Count needed ranks
       const neededRankCounts: Record<string, number> = {};
       for (const card of holeCardsInBest) {
-        neededRankCounts[card.rank] = (neededRankCounts[card.rank] || 0) + 1;
+        neededRankCounts[getRankKey(card)] = (neededRankCounts[getRankKey(card)] || 0) + 1;
       }
 
       // Return indices
       const correctIndices = new Set<number>();
       for (let i = 0; i < hand.cards.length; i++) {
-        if (neededRankCounts[hand.cards[i].rank] > 0) {
+        if (neededRankCounts[getRankKey(hand.cards[i])] > 0) {
           correctIndices.add(i);
         }
       }
       return correctIndices;
     },
-    [hands, communityCards, selectedCardCount]
+    [hands, showdown]
   );
 
   const isCorrectCommunityCard = useCallback(
@@ -360,7 +471,7 @@ export default function HandReadingScreen() {
       if (!winningCards) return false;
 
       const selectedCard = communityCards[index];
-      return winningCards.some((card) => card.rank === selectedCard.rank);
+      return winningCards.some((card) => getRankKey(card) === getRankKey(selectedCard));
     },
     [communityCards, getWinningCommunityCards]
   );
@@ -368,83 +479,84 @@ export default function HandReadingScreen() {
   const isCorrectHoleCard = useCallback(
     (handIndex: number, cardIndex: number): boolean => {
       const hand = hands[handIndex];
-      const evaluation = findBestHand(hand.cards, communityCards, selectedCardCount);
+      const evaluation = showdown.evaluations[handIndex];
 
       // Find hole cards in best hand
       const holeCardsInBest: Card[] = [];
       for (const card of evaluation.bestHighHand) {
-        if (hand.cards.some((c) => c.rank === card.rank && c.suit === card.suit)) {
+        if (hand.cards.some((c) => isSameCard(c, card))) {
           holeCardsInBest.push(card);
         }
       }
 
       const selectedCard = hand.cards[cardIndex];
-      return holeCardsInBest.some((c) => c.rank === selectedCard.rank);
+      return holeCardsInBest.some((c) => getRankKey(c) === getRankKey(selectedCard));
     },
-    [hands, communityCards, selectedCardCount]
+    [hands, showdown]
   );
 
   const checkRoundCompleteness = useCallback(() => {
-    const winningCards = getWinningCommunityCards();
-    if (!winningCards) return;
+    // Lowball games have no board and no high half: the whole pot goes to the low,
+    // so only the Low answers below decide the round
+    if (playedVariant.boardSize > 0 && !playedVariant.lowball) {
+      const winningCards = getWinningCommunityCards();
+      if (!winningCards) return;
 
-    // Check community cards
-    const rankCounts: Record<string, number> = {};
-    for (const card of winningCards) {
-      rankCounts[card.rank] = (rankCounts[card.rank] || 0) + 1;
-    }
+      // Check community cards
+      const rankCounts: Record<string, number> = {};
+      for (const card of winningCards) {
+        rankCounts[getRankKey(card)] = (rankCounts[getRankKey(card)] || 0) + 1;
+      }
 
-    const elevatedRankCounts: Record<string, number> = {};
-    for (const index of elevatedCommunityCards) {
-      const card = communityCards[index];
-      elevatedRankCounts[card.rank] = (elevatedRankCounts[card.rank] || 0) + 1;
-    }
+      const elevatedRankCounts: Record<string, number> = {};
+      for (const index of elevatedCommunityCards) {
+        const card = communityCards[index];
+        elevatedRankCounts[getRankKey(card)] = (elevatedRankCounts[getRankKey(card)] || 0) + 1;
+      }
 
-    if (elevatedCommunityCards.size !== winningCards.length) return;
+      if (elevatedCommunityCards.size !== winningCards.length) return;
 
-    for (const [rank, needed] of Object.entries(rankCounts)) {
-      if ((elevatedRankCounts[rank] || 0) !== needed) return;
+      for (const [rank, needed] of Object.entries(rankCounts)) {
+        if ((elevatedRankCounts[rank] || 0) !== needed) return;
+      }
     }
 
     // Check all winning hands have correct selections
     for (let i = 0; i < hands.length; i++) {
       const hand = hands[i];
 
-      if (selectedCardCount === 2) {
-        const winsHi = checkAnswer(i, 'hi');
-        const hasHiSelected = selectedAnswers.get(i)?.has('hi') ?? false;
-        if (winsHi && !hasHiSelected) return;
-      } else {
-        const evaluation = findBestHand(hand.cards, communityCards, selectedCardCount);
-        const hasLow = evaluation.bestLowHand !== null;
+      const evaluation = showdown.evaluations[i];
+      const winsHi = checkAnswer(i, 'hi');
+      const hasHiSelected = selectedAnswers.get(i)?.has('hi') ?? false;
+      if (winsHi && !hasHiSelected) return;
 
-        const winsHi = checkAnswer(i, 'hi');
-        const hasHiSelected = selectedAnswers.get(i)?.has('hi') ?? false;
+      if (playsLow(playedVariant)) {
+        const hasLow = evaluation.bestLowHand !== null;
         const winsLow = hasLow && checkAnswer(i, 'low');
         const hasLowSelected = selectedAnswers.get(i)?.has('low') ?? false;
-
-        if (winsHi && !hasHiSelected) return;
         if (winsLow && !hasLowSelected) return;
+      }
 
+      if (picksHoleCards(playedVariant)) {
         // Check hole cards for winning hi hands
         if (winsHi) {
           const selectedHole = elevatedHoleCards.get(i) ?? new Set();
           const holeCardsInBest: Card[] = [];
           for (const card of evaluation.bestHighHand) {
-            if (hand.cards.some((c) => c.rank === card.rank && c.suit === card.suit)) {
+            if (hand.cards.some((c) => isSameCard(c, card))) {
               holeCardsInBest.push(card);
             }
           }
 
           const neededRankCounts: Record<string, number> = {};
           for (const card of holeCardsInBest) {
-            neededRankCounts[card.rank] = (neededRankCounts[card.rank] || 0) + 1;
+            neededRankCounts[getRankKey(card)] = (neededRankCounts[getRankKey(card)] || 0) + 1;
           }
 
           const selectedRankCounts: Record<string, number> = {};
           for (const cardIndex of selectedHole) {
             const card = hand.cards[cardIndex];
-            selectedRankCounts[card.rank] = (selectedRankCounts[card.rank] || 0) + 1;
+            selectedRankCounts[getRankKey(card)] = (selectedRankCounts[getRankKey(card)] || 0) + 1;
           }
 
           if (JSON.stringify(neededRankCounts) !== JSON.stringify(selectedRankCounts)) return;
@@ -453,11 +565,8 @@ export default function HandReadingScreen() {
     }
 
     // Check No Low
-    if (selectedCardCount !== 2) {
-      const anyHasLow = hands.some((hand) => {
-        const eval_ = findBestHand(hand.cards, communityCards, selectedCardCount);
-        return eval_.bestLowHand !== null;
-      });
+    if (playedVariant.isHiLo) {
+      const anyHasLow = showdown.lowWinners.length > 0;
       if (!anyHasLow && !noLowSelected) return;
     }
 
@@ -470,6 +579,9 @@ export default function HandReadingScreen() {
         isCorrect: true,
         timeTaken: elapsedTime,
         date: new Date().toISOString(),
+        lowQualifier: playedVariant.isHiLo ? selectedLowQualifier : undefined,
+        ...dealSettings,
+        redealSeed,
       };
       saveRoundResult(result);
       setRoundResults((prev) => [...prev.slice(-19), result]);
@@ -480,15 +592,26 @@ export default function HandReadingScreen() {
     elevatedCommunityCards,
     communityCards,
     hands,
-    selectedCardCount,
+    showdown,
+    playedVariant,
     checkAnswer,
     selectedAnswers,
     elevatedHoleCards,
     noLowSelected,
     timerActive,
     timerStartTime,
+    selectedLowQualifier,
+    dealSettings,
+    redealSeed,
   ]);
 
+  // The checks run just after a tap, once its state updates have rendered, so they go
+  // through a ref that always holds the latest checkRoundCompleteness
+  const checkRoundCompletenessRef = useRef(checkRoundCompleteness);
+  useEffect(() => {
+    checkRoundCompletenessRef.current = checkRoundCompleteness;
+  }, [checkRoundCompleteness]);
+
   const selectAnswer = useCallback(
     (handIndex: number, answer: HandAnswer) => {
       setSelectedAnswers((prev) => {
@@ -503,13 +626,16 @@ export default function HandReadingScreen() {
             newSet.delete(handIndex);
             return newSet;
           });
-          if (selectedCardCount === 2) {
+          if (!picksHoleCards(playedVariant)) {
             setElevatedHoleCards((prev) => {
               const newMap = new Map(prev);
               newMap.set(handIndex, new Set());
               return newMap;
             });
           }
+          setMistake((prev) =>
+            prev?.handIndex === handIndex && prev.half === answer ? null : prev
+          );
           setRoundStatus('incomplete');
         } else {
           current.add(answer);
@@ -517,16 +643,21 @@ export default function HandReadingScreen() {
 
           if (isCorrect) {
             setElevatedCards((prev) => new Set([...prev, handIndex]));
-            if (selectedCardCount === 2 && answer === 'hi') {
+            if (!picksHoleCards(playedVariant) && answer === 'hi') {
+              // Every hole card can play, so they all rise with a correct Hi
               setElevatedHoleCards((prev) => {
                 const newMap = new Map(prev);
-                newMap.set(handIndex, new Set([0, 1]));
+                newMap.set(
+                  handIndex,
+                  new Set(Array.from({ length: playedVariant.holeCards }, (_, i) => i))
+                );
                 return newMap;
               });
             }
           } else {
             setRoundStatus('failed');
             setHadFailureThisRound(true);
+            setMistake(explainMistake(showdown, handIndex, answer, playedVariant));
             // Brief elevation then drop
             setElevatedCards((prev) => new Set([...prev, handIndex]));
             setTimeout(() => {
@@ -544,9 +675,9 @@ export default function HandReadingScreen() {
       });
 
       setShowingResults(true);
-      setTimeout(() => checkRoundCompleteness(), 100);
+      setTimeout(() => checkRoundCompletenessRef.current(), 100);
     },
-    [checkAnswer, selectedCardCount, checkRoundCompleteness]
+    [checkAnswer, showdown, playedVariant]
   );
 
   const selectCommunityCard = useCallback(
@@ -590,9 +721,9 @@ export default function HandReadingScreen() {
         }
       }
 
-      setTimeout(() => checkRoundCompleteness(), 100);
+      setTimeout(() => checkRoundCompletenessRef.current(), 100);
     },
-    [selectedCommunityCards, isCorrectCommunityCard, checkRoundCompleteness]
+    [selectedCommunityCards, isCorrectCommunityCard]
   );
 
   const selectHoleCard = useCallback(
@@ -664,9 +795,9 @@ export default function HandReadingScreen() {
         }
       }
 
-      setTimeout(() => checkRoundCompleteness(), 100);
+      setTimeout(() => checkRoundCompletenessRef.current(), 100);
     },
-    [selectedHoleCards, isCorrectHoleCard, checkRoundCompleteness]
+    [selectedHoleCards, isCorrectHoleCard]
   );
 
   const handleNoLowPress = useCallback(() => {
@@ -683,8 +814,8 @@ export default function HandReadingScreen() {
       setRoundStatus('incomplete');
     }
 
-    setTimeout(() => checkRoundCompleteness(), 100);
-  }, [noLowSelected, checkNoLowAnswer, checkRoundCompleteness]);
+    setTimeout(() => checkRoundCompletenessRef.current(), 100);
+  }, [noLowSelected, checkNoLowAnswer]);
 
   const handleResetStats = useCallback(() => {
     resetStats();
@@ -721,7 +852,7 @@ export default function HandReadingScreen() {
 
   const shouldShowHandDescription = (handIndex: number): boolean => {
     if (roundStatus === 'correct') return true;
-    if (selectedCardCount === 2) {
+    if (!picksHoleCards(playedVariant)) {
       return selectedAnswers.get(handIndex)?.has('hi') ?? false;
     }
     const elevatedHole = elevatedHoleCards.get(handIndex) ?? new Set();
@@ -755,18 +886,78 @@ export default function HandReadingScreen() {
         </View>
       )}
 
-      <Text style={styles.sectionLabel}>Number of cards:</Text>
+      <Text style={styles.sectionLabel}>Game:</Text>
+      <View style={[styles.optionRow, styles.optionRowWrap]}>
+        {GAME_VARIANTS.map((variant) => (
+          <TouchableOpacity
+            key={variant.id}
+            style={[
+              styles.optionButton,
+              styles.optionButtonGame,
+              selectedVariant.id === variant.id && styles.optionButtonSelected,
+            ]}
+            onPress={() => setSelectedVariant(withJoker(variant, selectedVariant.joker))}
+          >
+            <Text style={styles.optionButtonGameText}>{variant.name}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {supportsJoker(selectedVariant) && (
+        <>
+          <Text style={[styles.sectionLabel, { marginTop: 20 }]}>Joker:</Text>
+          <View style={styles.optionRow}>
+            {JOKER_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.label}
+                style={[
+                  styles.optionButton,
+                  styles.optionButtonWide,
+                  selectedVariant.joker === option.value && styles.optionButtonSelected,
+                ]}
+                onPress={() => setSelectedVariant(withJoker(selectedVariant, option.value))}
+              >
+                <Text style={styles.optionButtonText}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
+      )}
+
+      {selectedVariant.isHiLo && (
+        <>
+          <Text style={[styles.sectionLabel, { marginTop: 20 }]}>Low:</Text>
+          <View style={styles.optionRow}>
+            {LOW_QUALIFIER_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.label}
+                style={[
+                  styles.optionButton,
+                  styles.optionButtonWide,
+                  selectedLowQualifier === option.value && styles.optionButtonSelected,
+                ]}
+                onPress={() => setSelectedLowQualifier(option.value)}
+              >
+                <Text style={styles.optionButtonText}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
+      )}
+
+      <Text style={[styles.sectionLabel, { marginTop: 20 }]}>Hand descriptions:</Text>
       <View style={styles.optionRow}>
-        {CARD_COUNT_OPTIONS.map((option) => (
+        {DESCRIPTION_OPTIONS.map((option) => (
           <TouchableOpacity
-            key={option}
+            key={option.value}
             style={[
               styles.optionButton,
-              selectedCardCount === option && styles.optionButtonSelected,
+              styles.optionButtonWide,
+              selectedVerbosity === option.value && styles.optionButtonSelected,
             ]}
-            onPress={() => setSelectedCardCount(option)}
+            onPress={() => setSelectedVerbosity(option.value)}
           >
-            <Text style={styles.optionButtonText}>{option}</Text>
+            <Text style={styles.optionButtonText}>{option.label}</Text>
           </TouchableOpacity>
         ))}
       </View>
@@ -818,8 +1009,88 @@ export default function HandReadingScreen() {
     </View>
   );
 
+  // Outs can be quizzed on the flop and turn once every hand holds its final cards
+  const canQuizOuts =
+    hands.length > 0 && hands.every((hand) => hand.cards.length === playedVariant.holeCards);
+
+  const renderOutsQuizButton = () =>
+    canQuizOuts && (
+      <View style={{ marginTop: 30 }}>
+        <GlassyButton
+          title="What are the outs?"
+          onPress={() => setShowOutsQuiz(true)}
+          baseColor={ButtonColors.purple}
+          width={200}
+          height={40}
+          fontSize={16}
+        />
+      </View>
+    );
+
   // Render reveal stages
   const renderRevealStage = () => {
+    if (showOutsQuiz && (revealStage === 'flop' || revealStage === 'turn')) {
+      return (
+        <ScrollView contentContainerStyle={styles.outsQuizContent}>
+          <OutsQuiz
+            hands={hands}
+            board={outsBoard}
+            variant={playedVariant}
+            lowQualifier={selectedLowQualifier}
+            seed={redealSeed ?? dealSettings.seed ?? 0}
+            onClose={() => setShowOutsQuiz(false)}
+          />
+        </ScrollView>
+      );
+    }
+
+    if (revealStage === 'discard') {
+      // Pineapple discards before the flop, Crazy Pineapple after it
+      const visibleBoard = boardRevealed
+        ? communityCards
+        : communityCards.slice(0, selectedVariant.discard === 'afterFlop' ? 3 : 0);
+      return (
+        <View style={styles.stageContainer}>
+          <Text style={styles.stageTitle}>Discard</Text>
+          {visibleBoard.length > 0 && (
+            <View style={[styles.cardRow, { marginBottom: 20 }]}>
+              {visibleBoard.map((card) => (
+                <CardView key={card.id} card={card} width={HOLE_CARD_WIDTH} height={HOLE_CARD_HEIGHT} />
+              ))}
+            </View>
+          )}
+          <ScrollView style={styles.discardScroll} contentContainerStyle={styles.discardContent}>
+            {hands.map((hand, handIndex) => (
+              <View key={hand.id} style={styles.cardRow}>
+                {hand.cards.map((card, cardIndex) => (
+                  <CardView
+                    key={card.id}
+                    card={card}
+                    width={HOLE_CARD_WIDTH}
+                    height={HOLE_CARD_HEIGHT}
+                    elevated={discards.get(handIndex) === cardIndex}
+                    onPress={() => selectDiscard(handIndex, cardIndex)}
+                  />
+                ))}
+              </View>
+            ))}
+          </ScrollView>
+          <Text style={styles.stageSubtitle}>Tap the card each player throws away</Text>
+          <View style={styles.riverButtons}>
+            <GlassyButton
+              title="Continue"
+              onPress={advanceRevealStage}
+              baseColor={ButtonColors.green}
+              width={150}
+              height={45}
+              fontSize={18}
+              disabled={discards.size < hands.length}
+            />
+          </View>
+        </View>
+      );
+    }
+
     if (revealStage === 'ready') {
       return (
         <Pressable style={styles.stageContainer} onPress={advanceRevealStage}>
@@ -838,6 +1109,7 @@ export default function HandReadingScreen() {
               <CardView key={card.id} card={card} width={STAGE_CARD_WIDTH} height={STAGE_CARD_HEIGHT} />
             ))}
           </View>
+          {renderOutsQuizButton()}
           <Text style={styles.stageSubtitle}>Tap to continue</Text>
         </Pressable>
       );
@@ -855,6 +1127,7 @@ export default function HandReadingScreen() {
           <View style={[styles.cardRow, { marginTop: 15 }]}>
             <CardView card={communityCards[3]} width={STAGE_CARD_WIDTH} height={STAGE_CARD_HEIGHT} />
           </View>
+          {renderOutsQuizButton()}
           <Text style={styles.stageSubtitle}>Tap to continue</Text>
         </Pressable>
       );
@@ -917,7 +1190,10 @@ export default function HandReadingScreen() {
 
       {/* Stats line */}
       <View style={styles.statsLine}>
-        <Text style={styles.statsLineText}>{hands.length} players</Text>
+        <Text style={styles.statsLineText}>
+          {hands.length} players
+          {playedVariant.isHiLo && ` | ${getLowQualifierName(selectedLowQualifier)}`}
+        </Text>
         {roundResults.length > 0 && (
           <Text style={styles.statsLineText}>
             {getCorrectPercentage(roundResults).toFixed(0)}% | Avg:{' '}
@@ -929,67 +1205,115 @@ export default function HandReadingScreen() {
       {/* Scrollable hands area */}
       <ScrollView style={styles.handsScroll} contentContainerStyle={styles.handsContent}>
         {hands.map((hand, handIndex) => (
-          <View key={hand.id} style={styles.handRow}>
-            {/* Cards */}
-            <View style={styles.handCardsContainer}>
-              <View style={styles.handCards}>
-                {hand.cards.map((card, cardIndex) => (
-                  <View
-                    key={card.id}
-                    style={[
-                      styles.handCardWrapper,
-                      { left: cardIndex * HOLE_CARD_OFFSET },
-                    ]}
-                  >
-                    <CardView
-                      card={card}
-                      width={HOLE_CARD_WIDTH}
-                      height={HOLE_CARD_HEIGHT}
-                      elevated={elevatedHoleCards.get(handIndex)?.has(cardIndex) ?? false}
-                      onPress={
-                        selectedCardCount !== 2
-                          ? () => selectHoleCard(handIndex, cardIndex)
-                          : undefined
-                      }
-                    />
+          <React.Fragment key={hand.id}>
+            <View style={styles.handRow}>
+              {/* Cards */}
+              <View style={styles.handCardsContainer}>
+                <View style={styles.handCards}>
+                  {hand.cards.map((card, cardIndex) => (
+                    <View
+                      key={card.id}
+                      style={[
+                        styles.handCardWrapper,
+                        { left: cardIndex * getHoleCardOffset(hand.cards.length) },
+                      ]}
+                    >
+                      <CardView
+                        card={card}
+                        width={HOLE_CARD_WIDTH}
+                        height={HOLE_CARD_HEIGHT}
+                        elevated={elevatedHoleCards.get(handIndex)?.has(cardIndex) ?? false}
+                        jokerAs={
+                          shouldShowHandDescription(handIndex)
+                            ? getJokerSubstitute(showdown.evaluations[handIndex].bestHighHand)
+                            : undefined
+                        }
+                        onPress={
+                          picksHoleCards(playedVariant)
+                            ? () => selectHoleCard(handIndex, cardIndex)
+                            : undefined
+                        }
+                      />
+                    </View>
+                  ))}
+                </View>
+              </View>
+
+              {/* Hi/Lo buttons */}
+              <View style={styles.answerButtons}>
+                {!playedVariant.lowball && (
+                  <View style={styles.answerRow}>
+                    {shouldShowHandDescription(handIndex) && (
+                      <Text
+                        style={[
+                          styles.handDescription,
+                          selectedVerbosity !== 'short' && styles.handDescriptionWide,
+                        ]}
+                      >
+                        {getHandDescription(
+                          hand.cards,
+                          communityCards,
+                          playedVariant,
+                          selectedVerbosity
+                        )}
+                      </Text>
+                    )}
+                    <TouchableOpacity
+                      style={[styles.answerButton, { backgroundColor: getButtonColor(handIndex, 'hi') }]}
+                      onPress={() => selectAnswer(handIndex, 'hi')}
+                    >
+                      <Text style={styles.answerButtonText}>Hi</Text>
+                    </TouchableOpacity>
                   </View>
-                ))}
+                )}
+
+                {playsLow(playedVariant) && (
+                  <View style={styles.answerRow}>
+                    {shouldShowLowDescription(handIndex) && (
+                      <Text style={styles.handDescription}>
+                        {getLowHandDescription(
+                          hand.cards,
+                          communityCards,
+                          playedVariant,
+                          selectedLowQualifier
+                        )}
+                      </Text>
+                    )}
+                    <TouchableOpacity
+                      style={[styles.answerButton, { backgroundColor: getButtonColor(handIndex, 'low') }]}
+                      onPress={() => selectAnswer(handIndex, 'low')}
+                    >
+                      <Text style={styles.answerButtonText}>Low</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
               </View>
             </View>
 
-            {/* Hi/Lo buttons */}
-            <View style={styles.answerButtons}>
-              <View style={styles.answerRow}>
-                {shouldShowHandDescription(handIndex) && (
-                  <Text style={styles.handDescription}>
-                    {getHandDescription(hand.cards, communityCards, selectedCardCount)}
+            {/* Equity by street, once the round is complete */}
+            {streetEquities === null && (
+              <View style={styles.equityRow}>
+                <Text style={styles.equityText}>Working out equity...</Text>
+              </View>
+            )}
+            {streetEquities !== null && streetEquities.length > 0 && (
+              <View style={styles.equityRow}>
+                {streetEquities.map(({ street, result }) => (
+                  <Text key={street} style={styles.equityText}>
+                    {street}: {formatEquity(result.equities[handIndex], playedVariant.isHiLo)}
                   </Text>
-                )}
-                <TouchableOpacity
-                  style={[styles.answerButton, { backgroundColor: getButtonColor(handIndex, 'hi') }]}
-                  onPress={() => selectAnswer(handIndex, 'hi')}
-                >
-                  <Text style={styles.answerButtonText}>Hi</Text>
-                </TouchableOpacity>
+                ))}
               </View>
-
-              {selectedCardCount !== 2 && (
-                <View style={styles.answerRow}>
-                  {shouldShowLowDescription(handIndex) && (
-                    <Text style={styles.handDescription}>
-                      {getLowHandDescription(hand.cards, communityCards, selectedCardCount)}
-                    </Text>
-                  )}
-                  <TouchableOpacity
-                    style={[styles.answerButton, { backgroundColor: getButtonColor(handIndex, 'low') }]}
-                    onPress={() => selectAnswer(handIndex, 'low')}
-                  >
-                    <Text style={styles.answerButtonText}>Low</Text>
-                  </TouchableOpacity>
-                </View>
-              )}
-            </View>
-          </View>
+            )}
+            {counterfeitNotes[handIndex]?.map((note) => (
+              <Text key={note} style={[styles.equityRow, styles.counterfeitText]}>
+                {note}
+              </Text>
+            ))}
+            {mistake?.handIndex === handIndex && (
+              <MistakeDetails explanation={mistake} onDismiss={() => setMistake(null)} />
+            )}
+          </React.Fragment>
         ))}
 
         {/* Redeal button */}
@@ -1005,7 +1329,7 @@ export default function HandReadingScreen() {
         </View>
 
         {/* No Low button */}
-        {selectedCardCount !== 2 && (
+        {playedVariant.isHiLo && (
           <TouchableOpacity
             style={[styles.noLowButton, { backgroundColor: getNoLowButtonColor() }]}
             onPress={handleNoLowPress}
@@ -1025,6 +1349,11 @@ export default function HandReadingScreen() {
               width={COMMUNITY_CARD_WIDTH}
               height={COMMUNITY_CARD_HEIGHT}
               elevated={elevatedCommunityCards.has(index)}
+              jokerAs={
+                roundStatus === 'correct' && showdown.highWinners.length > 0
+                  ? getJokerSubstitute(showdown.highWinners[0].cards)
+                  : undefined
+              }
               onPress={() => selectCommunityCard(index)}
             />
           ))}
@@ -1110,6 +1439,10 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 15,
   },
+  optionRowWrap: {
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
   optionGrid: {
     gap: 10,
   },
@@ -1125,6 +1458,12 @@ const styles = StyleSheet.create({
     width: 50,
     height: 45,
   },
+  optionButtonWide: {
+    width: 90,
+  },
+  optionButtonGame: {
+    width: 110,
+  },
   optionButtonSelected: {
     backgroundColor: 'rgba(59, 130, 246, 0.8)',
   },
@@ -1136,6 +1475,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: 'white',
   },
+  optionButtonGameText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: 'white',
+  },
   stageContainer: {
     flex: 1,
     alignItems: 'center',
@@ -1162,6 +1506,18 @@ const styles = StyleSheet.create({
     gap: 15,
     alignItems: 'center',
   },
+  outsQuizContent: {
+    paddingVertical: 20,
+    alignItems: 'center',
+  },
+  discardScroll: {
+    flexGrow: 0,
+    maxHeight: '50%',
+  },
+  discardContent: {
+    gap: 12,
+    alignItems: 'center',
+  },
   fullGameContainer: {
     flex: 1,
     ...(isWeb ? { maxWidth: 600, alignSelf: 'center' as const, width: '100%' } : {}),
@@ -1250,6 +1606,24 @@ const styles = StyleSheet.create({
     textAlign: 'right',
     width: isWeb ? 100 : 70,
   },
+  handDescriptionWide: {
+    width: isWeb ? 170 : 110,
+  },
+  equityRow: {
+    width: '100%',
+    paddingHorizontal: 15,
+    marginTop: -10,
+    marginBottom: 15,
+  },
+  counterfeitText: {
+    fontSize: isWeb ? 12 : 10,
+    fontWeight: '600',
+    color: '#f97316',
+  },
+  equityText: {
+    fontSize: isWeb ? 12 : 10,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
   answerButton: {
     width: isWeb ? 70 : 60,
     height: isWeb ? 40 : 35,
@@ -0,0 +1,608 @@
+// Nuts Screen - name the best possible high and low for a board
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ImageBackground,
+  ScrollView,
+  TouchableOpacity,
+  Platform,
+} from 'react-native';
+import { Stack } from 'expo-router';
+
+import { Card, isSameCard } from '@/lib/models/Card';
+import { Deck } from '@/lib/models/Deck';
+import { RoundStatus, RoundResult, GameVariant, HandAnswer, DealSettings } from '@/lib/poker/types';
+import { getUnseenCards } from '@/lib/poker/equity';
+import { NUT_TIERS, NutTier, evaluateHolding, findNuts, getNutHoldingVariant } from '@/lib/poker/nuts';
+import { GAME_VARIANTS, OMAHA_HI_LO, getDeckRanks } from '@/lib/poker/variants';
+import {
+  loadRoundResults,
+  saveRoundResult,
+  resetStats,
+  getCorrectPercentage,
+  getAverageCompletedTime,
+  formatTime,
+} from '@/lib/storage/roundResults';
+import { CardView } from '@/components/game/CardView';
+import { CardPicker, formatCard } from '@/components/game/CardPicker';
+import { GlassyButton, ButtonColors } from '@/components/game/GlassyButton';
+
+// Platform-specific card sizes
+const isWeb = Platform.OS === 'web';
+const STAGE_CARD_WIDTH = isWeb ? 80 : 60;
+const STAGE_CARD_HEIGHT = isWeb ? 112 : 84;
+
+// Board games where the holding is known up front; the joker stays out of the picker
+const VARIANT_OPTIONS = GAME_VARIANTS.filter((variant) => variant.boardSize > 0 && !variant.discard);
+const TIER_OPTIONS = ['Nuts', '2nd', '3rd'].slice(0, NUT_TIERS);
+
+function getTierName(tier: number): string {
+  return tier === 0 ? 'nut' : tier === 1 ? 'second-nut' : 'third-nut';
+}
+
+export default function NutsScreen() {
+  // Settings state
+  const [selectedVariant, setSelectedVariant] = useState<GameVariant>(OMAHA_HI_LO);
+  const [selectedTier, setSelectedTier] = useState(0);
+
+  // Game state
+  const [gameStarted, setGameStarted] = useState(false);
+  // Seed and settings behind the current deal, recorded with the round
+  const [dealSettings, setDealSettings] = useState<DealSettings>({});
+  const [board, setBoard] = useState<Card[]>([]);
+  const [activeHalf, setActiveHalf] = useState<HandAnswer>('hi');
+  const [pickedHigh, setPickedHigh] = useState<Card[]>([]);
+  const [pickedLow, setPickedLow] = useState<Card[]>([]);
+  const [noLowSelected, setNoLowSelected] = useState(false);
+  const [answersChecked, setAnswersChecked] = useState(false);
+
+  // Timer & stats state
+  const [timerStartTime, setTimerStartTime] = useState<Date | null>(null);
+  const [currentElapsedTime, setCurrentElapsedTime] = useState(0);
+  const [timerActive, setTimerActive] = useState(false);
+  const [roundStatus, setRoundStatus] = useState<RoundStatus>('incomplete');
+  const [hadFailureThisRound, setHadFailureThisRound] = useState(false);
+  const [roundResults, setRoundResults] = useState<RoundResult[]>([]);
+
+  // Load round results on mount
+  useEffect(() => {
+    loadRoundResults('nuts').then(setRoundResults);
+  }, []);
+
+  // Timer effect
+  useEffect(() => {
+    if (!timerActive || !timerStartTime) return;
+
+    const interval = setInterval(() => {
+      setCurrentElapsedTime(
+        (new Date().getTime() - timerStartTime.getTime()) / 1000
+      );
+    }, 100);
+
+    return () => clearInterval(interval);
+  }, [timerActive, timerStartTime]);
+
+  // Every distinct hand the board allows, from trying each possible holding
+  const nuts = useMemo(
+    () => (board.length > 0 ? findNuts(board, selectedVariant) : { high: [], low: [] }),
+    [board, selectedVariant]
+  );
+  const unseen = useMemo(() => getUnseenCards([], board, selectedVariant), [board, selectedVariant]);
+  const holdingSize = getNutHoldingVariant(selectedVariant).holeCards;
+
+  // A board with fewer distinct hands than the tier asks for falls back to the last one
+  const highTarget: NutTier | undefined = nuts.high[Math.min(selectedTier, nuts.high.length - 1)];
+  const lowTarget: NutTier | undefined = nuts.low[Math.min(selectedTier, nuts.low.length - 1)];
+
+  const recordResult = useCallback(
+    (isCorrect: boolean) => {
+      if (!timerActive || !timerStartTime) return;
+      const elapsedTime = (new Date().getTime() - timerStartTime.getTime()) / 1000;
+      const result: RoundResult = {
+        isCorrect,
+        timeTaken: elapsedTime,
+        date: new Date().toISOString(),
+        ...dealSettings,
+      };
+      saveRoundResult(result, 'nuts');
+      setRoundResults((prev) => [...prev.slice(-19), result]);
+    },
+    [timerActive, timerStartTime, dealSettings]
+  );
+
+  const startGame = useCallback(() => {
+    // Save incomplete round if timer was running
+    recordResult(false);
+
+    const deck = new Deck(getDeckRanks(selectedVariant));
+    setBoard(deck.dealCards(selectedVariant.boardSize));
+    setDealSettings({ seed: deck.seed, variantId: selectedVariant.id });
+
+    // Reset all state
+    setActiveHalf('hi');
+    setPickedHigh([]);
+    setPickedLow([]);
+    setNoLowSelected(false);
+    setAnswersChecked(false);
+    setRoundStatus('incomplete');
+    setHadFailureThisRound(false);
+    setTimerStartTime(new Date());
+    setCurrentElapsedTime(0);
+    setTimerActive(true);
+    setGameStarted(true);
+  }, [selectedVariant, recordResult]);
+
+  const isHighCorrect = useMemo(() => {
+    if (!highTarget || pickedHigh.length !== holdingSize) return false;
+    return evaluateHolding(pickedHigh, board, selectedVariant).bestHighStrength === highTarget.strength;
+  }, [highTarget, pickedHigh, holdingSize, board, selectedVariant]);
+
+  const isLowCorrect = useMemo(() => {
+    if (!selectedVariant.isHiLo) return true;
+    if (!lowTarget) return noLowSelected;
+    if (noLowSelected || pickedLow.length !== holdingSize) return false;
+    return evaluateHolding(pickedLow, board, selectedVariant).bestLowStrength === lowTarget.strength;
+  }, [selectedVariant, lowTarget, noLowSelected, pickedLow, holdingSize, board]);
+
+  const togglePick = useCallback(
+    (card: Card) => {
+      const setPicked = activeHalf === 'hi' ? setPickedHigh : setPickedLow;
+      setPicked((prev) => {
+        if (prev.some((c) => isSameCard(c, card))) {
+          return prev.filter((c) => !isSameCard(c, card));
+        }
+        // Keep the holding at its size by dropping the oldest pick
+        return [...prev, card].slice(-holdingSize);
+      });
+      if (activeHalf === 'low') setNoLowSelected(false);
+      setAnswersChecked(false);
+    },
+    [activeHalf, holdingSize]
+  );
+
+  const toggleNoLow = useCallback(() => {
+    setNoLowSelected((prev) => !prev);
+    setPickedLow([]);
+    setAnswersChecked(false);
+  }, []);
+
+  const checkAnswers = useCallback(() => {
+    setAnswersChecked(true);
+    if (isHighCorrect && isLowCorrect) {
+      setRoundStatus('correct');
+      recordResult(!hadFailureThisRound);
+      setTimerActive(false);
+    } else {
+      setRoundStatus('failed');
+      setHadFailureThisRound(true);
+    }
+  }, [isHighCorrect, isLowCorrect, recordResult, hadFailureThisRound]);
+
+  const handleResetStats = useCallback(() => {
+    resetStats('nuts');
+    setRoundResults([]);
+  }, []);
+
+  const getPickColor = (card: Card): string => {
+    const picked = activeHalf === 'hi' ? pickedHigh : pickedLow;
+    if (!picked.some((c) => isSameCard(c, card))) return 'rgba(128, 128, 128, 0.6)';
+    if (!answersChecked) return 'rgba(59, 130, 246, 0.8)';
+    const isCorrect = activeHalf === 'hi' ? isHighCorrect : isLowCorrect;
+    return isCorrect ? 'rgba(34, 197, 94, 0.8)' : 'rgba(239, 68, 68, 0.8)';
+  };
+
+  const getHalfButtonColor = (half: HandAnswer): string => {
+    if (answersChecked) {
+      const isCorrect = half === 'hi' ? isHighCorrect : isLowCorrect;
+      return isCorrect ? 'rgba(34, 197, 94, 0.8)' : 'rgba(239, 68, 68, 0.8)';
+    }
+    return activeHalf === half ? 'rgba(59, 130, 246, 0.8)' : 'rgba(128, 128, 128, 0.6)';
+  };
+
+  const describeTier = (tier: NutTier): string =>
+    `${tier.description} (${tier.example.map(formatCard).join(' ')})`;
+
+  // Render settings view
+  const renderSettingsView = () => (
+    <View style={styles.settingsContainer}>
+      {roundResults.length > 0 && (
+        <View style={styles.statsContainer}>
+          <View style={styles.statsRow}>
+            <Text style={styles.statsText}>
+              {getCorrectPercentage(roundResults).toFixed(0)}% correct
+            </Text>
+            <Text style={styles.statsText}>
+              Avg: {formatTime(getAverageCompletedTime(roundResults))}
+            </Text>
+          </View>
+          <Text style={styles.statsSubtext}>({roundResults.length} rounds)</Text>
+        </View>
+      )}
+
+      <Text style={styles.sectionLabel}>Game:</Text>
+      <View style={[styles.optionRow, styles.optionRowWrap]}>
+        {VARIANT_OPTIONS.map((variant) => (
+          <TouchableOpacity
+            key={variant.id}
+            style={[
+              styles.optionButton,
+              styles.optionButtonGame,
+              selectedVariant.id === variant.id && styles.optionButtonSelected,
+            ]}
+            onPress={() => setSelectedVariant(variant)}
+          >
+            <Text style={styles.optionButtonGameText}>{variant.name}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={[styles.sectionLabel, { marginTop: 20 }]}>Find the:</Text>
+      <View style={styles.optionRow}>
+        {TIER_OPTIONS.map((label, tier) => (
+          <TouchableOpacity
+            key={label}
+            style={[
+              styles.optionButton,
+              styles.optionButtonWide,
+              selectedTier === tier && styles.optionButtonSelectedOrange,
+            ]}
+            onPress={() => setSelectedTier(tier)}
+          >
+            <Text style={styles.optionButtonText}>{label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={{ marginTop: 25 }}>
+        <GlassyButton
+          title="Start"
+          onPress={startGame}
+          baseColor={ButtonColors.green}
+          width={150}
+          height={50}
+          fontSize={20}
+        />
+      </View>
+    </View>
+  );
+
+  // Render game view
+  const renderGameView = () => (
+    <View style={styles.fullGameContainer}>
+      {/* Header */}
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          {hadFailureThisRound ? (
+            <Text style={styles.statusFailed}>FAILED</Text>
+          ) : roundStatus === 'correct' ? (
+            <Text style={styles.statusCorrect}>CORRECT</Text>
+          ) : (
+            <Text style={styles.headerTitle}>The Nuts</Text>
+          )}
+        </View>
+        <Text style={styles.timerText}>{formatTime(currentElapsedTime)}</Text>
+      </View>
+
+      {/* Stats line */}
+      <View style={styles.statsLine}>
+        <Text style={styles.statsLineText}>
+          {selectedVariant.name} | {TIER_OPTIONS[selectedTier]}
+        </Text>
+        {roundResults.length > 0 && (
+          <Text style={styles.statsLineText}>
+            {getCorrectPercentage(roundResults).toFixed(0)}% | Avg:{' '}
+            {formatTime(getAverageCompletedTime(roundResults))}
+          </Text>
+        )}
+      </View>
+
+      <ScrollView contentContainerStyle={styles.gameContent}>
+        {/* Board, laid out like the river in hand reading */}
+        <View style={styles.cardRow}>
+          {board.slice(0, 3).map((card) => (
+            <CardView key={card.id} card={card} width={STAGE_CARD_WIDTH} height={STAGE_CARD_HEIGHT} />
+          ))}
+        </View>
+        <View style={[styles.cardRow, { marginTop: 15 }]}>
+          {board.slice(3).map((card) => (
+            <CardView key={card.id} card={card} width={STAGE_CARD_WIDTH} height={STAGE_CARD_HEIGHT} />
+          ))}
+        </View>
+
+        <Text style={styles.promptText}>
+          Pick {holdingSize} cards for the {getTierName(selectedTier)} high
+          {selectedVariant.isHiLo && ' and low'}
+        </Text>
+
+        {/* Which half the picker is answering */}
+        <View style={styles.halfRow}>
+          <TouchableOpacity
+            style={[styles.halfButton, { backgroundColor: getHalfButtonColor('hi') }]}
+            onPress={() => setActiveHalf('hi')}
+          >
+            <Text style={styles.halfButtonText}>
+              Hi {pickedHigh.map(formatCard).join(' ')}
+            </Text>
+          </TouchableOpacity>
+          {selectedVariant.isHiLo && (
+            <TouchableOpacity
+              style={[styles.halfButton, { backgroundColor: getHalfButtonColor('low') }]}
+              onPress={() => setActiveHalf('low')}
+            >
+              <Text style={styles.halfButtonText}>
+                Low {noLowSelected ? 'None' : pickedLow.map(formatCard).join(' ')}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <CardPicker cards={unseen} getColor={getPickColor} onPress={togglePick} />
+
+        {selectedVariant.isHiLo && activeHalf === 'low' && (
+          <TouchableOpacity
+            style={[
+              styles.noLowButton,
+              {
+                backgroundColor: noLowSelected
+                  ? 'rgba(59, 130, 246, 0.8)'
+                  : 'rgba(128, 128, 128, 0.6)',
+              },
+            ]}
+            onPress={toggleNoLow}
+          >
+            <Text style={styles.noLowButtonText}>No Low</Text>
+          </TouchableOpacity>
+        )}
+
+        {roundStatus === 'correct' && (
+          <View style={styles.answerSummary}>
+            {highTarget && <Text style={styles.summaryText}>High: {describeTier(highTarget)}</Text>}
+            {selectedVariant.isHiLo && (
+              <Text style={styles.summaryText}>
+                Low: {lowTarget ? describeTier(lowTarget) : 'No low possible'}
+              </Text>
+            )}
+          </View>
+        )}
+
+        {roundStatus !== 'correct' && (
+          <View style={styles.actionButtonContainer}>
+            <GlassyButton
+              title="Check"
+              onPress={checkAnswers}
+              baseColor={ButtonColors.green}
+              width={200}
+              height={40}
+              fontSize={16}
+            />
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Footer */}
+      <View style={styles.footer}>
+        <GlassyButton
+          title="New Board"
+          onPress={startGame}
+          baseColor={ButtonColors.blue}
+          width={120}
+          height={40}
+          fontSize={14}
+        />
+      </View>
+    </View>
+  );
+
+  return (
+    <ImageBackground
+      source={require('@/assets/images/felt-background.jpg')}
+      style={styles.container}
+      imageStyle={styles.backgroundImage}
+      resizeMode="cover"
+    >
+      <Stack.Screen
+        options={{
+          title: 'The Nuts',
+          headerStyle: { backgroundColor: '#1a472a' },
+          headerTintColor: 'white',
+          headerRight: () => (
+            <TouchableOpacity onPress={handleResetStats} style={{ marginRight: 15 }}>
+              <Text style={{ color: 'white' }}>Reset</Text>
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      {!gameStarted && renderSettingsView()}
+      {gameStarted && renderGameView()}
+    </ImageBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    minHeight: Platform.OS === 'web' ? '100%' as any : undefined,
+  },
+  backgroundImage: {
+    width: '100%',
+    height: '100%',
+  },
+  settingsContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 20,
+  },
+  statsContainer: {
+    marginBottom: 30,
+    alignItems: 'center',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 20,
+  },
+  statsText: {
+    fontSize: 18,
+    color: 'rgba(255, 255, 255, 0.9)',
+  },
+  statsSubtext: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: 4,
+  },
+  sectionLabel: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: 'white',
+    marginBottom: 10,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 15,
+  },
+  optionRowWrap: {
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  optionButton: {
+    width: 60,
+    height: 50,
+    backgroundColor: 'rgba(128, 128, 128, 0.6)',
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  optionButtonWide: {
+    width: 90,
+  },
+  optionButtonGame: {
+    width: 110,
+  },
+  optionButtonSelected: {
+    backgroundColor: 'rgba(59, 130, 246, 0.8)',
+  },
+  optionButtonSelectedOrange: {
+    backgroundColor: 'rgba(249, 115, 22, 0.8)',
+  },
+  optionButtonText: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: 'white',
+  },
+  optionButtonGameText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: 'white',
+  },
+  fullGameContainer: {
+    flex: 1,
+    ...(isWeb ? { maxWidth: 600, alignSelf: 'center' as const, width: '100%' } : {}),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 10,
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: 'white',
+  },
+  statusCorrect: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#22c55e',
+  },
+  statusFailed: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#ef4444',
+  },
+  timerText: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: 'white',
+  },
+  statsLine: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 15,
+    paddingBottom: 5,
+  },
+  statsLineText: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  gameContent: {
+    paddingVertical: 20,
+    alignItems: 'center',
+    gap: 15,
+  },
+  cardRow: {
+    flexDirection: 'row',
+    gap: 15,
+  },
+  promptText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+    textAlign: 'center',
+  },
+  halfRow: {
+    flexDirection: 'row',
+    gap: 15,
+  },
+  halfButton: {
+    minWidth: 120,
+    height: 40,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  halfButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
+  noLowButton: {
+    width: 100,
+    height: 40,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  noLowButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  answerSummary: {
+    alignItems: 'center',
+    gap: 5,
+  },
+  summaryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  actionButtonContainer: {
+    alignItems: 'center',
+    marginVertical: 10,
+  },
+  footer: {
+    paddingVertical: isWeb ? 15 : 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+    alignItems: 'center',
+  },
+});
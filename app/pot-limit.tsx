@@ -0,0 +1,470 @@
+// Pot Screen - pot-limit maximum raise drill
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ImageBackground,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Platform,
+} from 'react-native';
+import { Stack } from 'expo-router';
+
+import { createSeed } from '@/lib/models/Random';
+import { RoundStatus, RoundResult, DealSettings } from '@/lib/poker/types';
+import {
+  PotLimitScenario,
+  generatePotLimitScenario,
+  getMaxPotLimitRaise,
+  getPositionName,
+  describeBettingAction,
+} from '@/lib/poker/potLimit';
+import {
+  loadRoundResults,
+  saveRoundResult,
+  resetStats,
+  getCorrectPercentage,
+  getAverageCompletedTime,
+  formatTime,
+} from '@/lib/storage/roundResults';
+import { GlassyButton, ButtonColors } from '@/components/game/GlassyButton';
+
+const isWeb = Platform.OS === 'web';
+
+const PLAYER_COUNT_OPTIONS = [4, 5, 6, 7, 8, 9] as const;
+
+export default function PotLimitScreen() {
+  // Settings state
+  const [selectedPlayerCount, setSelectedPlayerCount] = useState(6);
+
+  // Game state
+  const [gameStarted, setGameStarted] = useState(false);
+  // Seed and settings behind the current deal, recorded with the round
+  const [dealSettings, setDealSettings] = useState<DealSettings>({});
+  const [scenario, setScenario] = useState<PotLimitScenario | null>(null);
+  const [answer, setAnswer] = useState('');
+
+  // Timer & stats state
+  const [timerStartTime, setTimerStartTime] = useState<Date | null>(null);
+  const [currentElapsedTime, setCurrentElapsedTime] = useState(0);
+  const [timerActive, setTimerActive] = useState(false);
+  const [roundStatus, setRoundStatus] = useState<RoundStatus>('incomplete');
+  const [roundResults, setRoundResults] = useState<RoundResult[]>([]);
+
+  // Load round results on mount
+  useEffect(() => {
+    loadRoundResults('potLimit').then(setRoundResults);
+  }, []);
+
+  // Timer effect
+  useEffect(() => {
+    if (!timerActive || !timerStartTime) return;
+
+    const interval = setInterval(() => {
+      setCurrentElapsedTime(
+        (new Date().getTime() - timerStartTime.getTime()) / 1000
+      );
+    }, 100);
+
+    return () => clearInterval(interval);
+  }, [timerActive, timerStartTime]);
+
+  const startGame = useCallback(() => {
+    const seed = createSeed();
+    setScenario(generatePotLimitScenario(selectedPlayerCount, seed));
+    setDealSettings({ seed, playerCount: selectedPlayerCount });
+    setAnswer('');
+    setRoundStatus('incomplete');
+    setTimerStartTime(new Date());
+    setCurrentElapsedTime(0);
+    setTimerActive(true);
+    setGameStarted(true);
+  }, [selectedPlayerCount]);
+
+  const checkAnswer = useCallback(() => {
+    if (!scenario || roundStatus !== 'incomplete' || answer === '') return;
+
+    const { maxRaiseTo } = getMaxPotLimitRaise(scenario.actions, scenario.actorSeat);
+    const isCorrect = parseInt(answer, 10) === maxRaiseTo;
+    setRoundStatus(isCorrect ? 'correct' : 'failed');
+
+    if (timerActive && timerStartTime) {
+      const elapsedTime = (new Date().getTime() - timerStartTime.getTime()) / 1000;
+      const result: RoundResult = {
+        isCorrect,
+        timeTaken: elapsedTime,
+        date: new Date().toISOString(),
+        ...dealSettings,
+      };
+      saveRoundResult(result, 'potLimit');
+      setRoundResults((prev) => [...prev.slice(-19), result]);
+    }
+    setTimerActive(false);
+  }, [scenario, roundStatus, answer, timerActive, timerStartTime, dealSettings]);
+
+  const handleResetStats = useCallback(() => {
+    resetStats('potLimit');
+    setRoundResults([]);
+  }, []);
+
+  // Render settings view
+  const renderSettingsView = () => (
+    <View style={styles.settingsContainer}>
+      {roundResults.length > 0 && (
+        <View style={styles.statsContainer}>
+          <View style={styles.statsRow}>
+            <Text style={styles.statsText}>
+              {getCorrectPercentage(roundResults).toFixed(0)}% correct
+            </Text>
+            <Text style={styles.statsText}>
+              Avg: {formatTime(getAverageCompletedTime(roundResults))}
+            </Text>
+          </View>
+          <Text style={styles.statsSubtext}>({roundResults.length} rounds)</Text>
+        </View>
+      )}
+
+      <Text style={styles.sectionLabel}>Number of players:</Text>
+      <View style={styles.optionGrid}>
+        <View style={styles.optionRow}>
+          {PLAYER_COUNT_OPTIONS.slice(0, 3).map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[
+                styles.optionButton,
+                selectedPlayerCount === option && styles.optionButtonSelectedOrange,
+              ]}
+              onPress={() => setSelectedPlayerCount(option)}
+            >
+              <Text style={styles.optionButtonText}>{option}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.optionRow}>
+          {PLAYER_COUNT_OPTIONS.slice(3).map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[
+                styles.optionButton,
+                selectedPlayerCount === option && styles.optionButtonSelectedOrange,
+              ]}
+              onPress={() => setSelectedPlayerCount(option)}
+            >
+              <Text style={styles.optionButtonText}>{option}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <View style={{ marginTop: 25 }}>
+        <GlassyButton
+          title="Start"
+          onPress={startGame}
+          baseColor={ButtonColors.green}
+          width={150}
+          height={50}
+          fontSize={20}
+        />
+      </View>
+    </View>
+  );
+
+  const renderExplanation = () => {
+    if (!scenario) return null;
+    const { toCall, potAfterCall, maxRaiseTo } = getMaxPotLimitRaise(
+      scenario.actions,
+      scenario.actorSeat
+    );
+    return (
+      <View style={styles.explanationCard}>
+        <Text style={styles.explanationText}>Call {toCall}, pot becomes {potAfterCall}</Text>
+        <Text style={styles.explanationText}>
+          Raise {potAfterCall} more: max raise to {maxRaiseTo}
+        </Text>
+      </View>
+    );
+  };
+
+  // Render game view
+  const renderGameView = () => {
+    if (!scenario) return null;
+    const actorPosition = getPositionName(scenario.actorSeat, scenario.playerCount);
+
+    return (
+      <View style={styles.fullGameContainer}>
+        {/* Header */}
+        <View style={styles.header}>
+          <View style={styles.headerLeft}>
+            {roundStatus === 'failed' ? (
+              <Text style={styles.statusFailed}>FAILED</Text>
+            ) : roundStatus === 'correct' ? (
+              <Text style={styles.statusCorrect}>CORRECT</Text>
+            ) : (
+              <Text style={styles.headerTitle}>Pot Limit</Text>
+            )}
+          </View>
+          <Text style={styles.timerText}>{formatTime(currentElapsedTime)}</Text>
+        </View>
+
+        {/* Stats line */}
+        <View style={styles.statsLine}>
+          <Text style={styles.statsLineText}>
+            {scenario.playerCount} players | Blinds {scenario.smallBlind}/{scenario.bigBlind}
+          </Text>
+          {roundResults.length > 0 && (
+            <Text style={styles.statsLineText}>
+              {getCorrectPercentage(roundResults).toFixed(0)}% | Avg:{' '}
+              {formatTime(getAverageCompletedTime(roundResults))}
+            </Text>
+          )}
+        </View>
+
+        <ScrollView style={styles.actionsScroll} contentContainerStyle={styles.actionsContent}>
+          {scenario.actions.map((action, index) => (
+            <Text key={index} style={styles.actionText}>
+              {describeBettingAction(action, scenario.playerCount)}
+            </Text>
+          ))}
+          <Text style={styles.actorText}>Action on {actorPosition}</Text>
+          {roundStatus !== 'incomplete' && renderExplanation()}
+        </ScrollView>
+
+        {/* Footer with answer entry */}
+        <View style={styles.footer}>
+          <Text style={styles.questionText}>Maximum raise to:</Text>
+          <View style={styles.answerRow}>
+            <TextInput
+              style={[
+                styles.amountInput,
+                roundStatus === 'correct' && styles.amountInputCorrect,
+                roundStatus === 'failed' && styles.amountInputFailed,
+              ]}
+              value={answer}
+              onChangeText={(text) => setAnswer(text.replace(/[^0-9]/g, ''))}
+              onSubmitEditing={checkAnswer}
+              editable={roundStatus === 'incomplete'}
+              keyboardType="number-pad"
+              placeholder="Amount"
+              placeholderTextColor="rgba(255, 255, 255, 0.4)"
+            />
+            <GlassyButton
+              title="Check"
+              onPress={checkAnswer}
+              baseColor={ButtonColors.green}
+              width={100}
+              height={40}
+              fontSize={16}
+              disabled={roundStatus !== 'incomplete'}
+            />
+          </View>
+          <GlassyButton
+            title="Next Hand"
+            onPress={startGame}
+            baseColor={ButtonColors.blue}
+            width={120}
+            height={40}
+            fontSize={14}
+          />
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <ImageBackground
+      source={require('@/assets/images/felt-background.jpg')}
+      style={styles.container}
+      imageStyle={styles.backgroundImage}
+      resizeMode="cover"
+    >
+      <Stack.Screen
+        options={{
+          title: 'Pot',
+          headerStyle: { backgroundColor: '#1a472a' },
+          headerTintColor: 'white',
+          headerRight: () => (
+            <TouchableOpacity onPress={handleResetStats} style={{ marginRight: 15 }}>
+              <Text style={{ color: 'white' }}>Reset</Text>
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      {!gameStarted && renderSettingsView()}
+      {gameStarted && renderGameView()}
+    </ImageBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    minHeight: Platform.OS === 'web' ? '100%' as any : undefined,
+  },
+  backgroundImage: {
+    width: '100%',
+    height: '100%',
+  },
+  settingsContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 20,
+  },
+  statsContainer: {
+    marginBottom: 30,
+    alignItems: 'center',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 20,
+  },
+  statsText: {
+    fontSize: 18,
+    color: 'rgba(255, 255, 255, 0.9)',
+  },
+  statsSubtext: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: 4,
+  },
+  sectionLabel: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: 'white',
+    marginBottom: 10,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 15,
+  },
+  optionGrid: {
+    gap: 10,
+  },
+  optionButton: {
+    width: 60,
+    height: 50,
+    backgroundColor: 'rgba(128, 128, 128, 0.6)',
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  optionButtonSelectedOrange: {
+    backgroundColor: 'rgba(249, 115, 22, 0.8)',
+  },
+  optionButtonText: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: 'white',
+  },
+  fullGameContainer: {
+    flex: 1,
+    ...(isWeb ? { maxWidth: 600, alignSelf: 'center' as const, width: '100%' } : {}),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 10,
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: 'white',
+  },
+  statusCorrect: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#22c55e',
+  },
+  statusFailed: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#ef4444',
+  },
+  timerText: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: 'white',
+  },
+  statsLine: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 15,
+    paddingBottom: 5,
+  },
+  statsLineText: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  actionsScroll: {
+    flex: 1,
+  },
+  actionsContent: {
+    paddingTop: 20,
+    paddingBottom: 20,
+    paddingHorizontal: 30,
+    gap: 8,
+  },
+  actionText: {
+    fontSize: 18,
+    color: 'white',
+  },
+  actorText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#facc15',
+    marginTop: 10,
+  },
+  explanationCard: {
+    marginTop: 15,
+    padding: 12,
+    borderRadius: 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+    gap: 4,
+  },
+  explanationText: {
+    fontSize: 15,
+    color: 'rgba(255, 255, 255, 0.9)',
+  },
+  footer: {
+    paddingVertical: isWeb ? 15 : 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+    alignItems: 'center',
+    gap: isWeb ? 15 : 10,
+  },
+  questionText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
+  answerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  amountInput: {
+    width: 120,
+    height: 40,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    color: 'white',
+    fontSize: 18,
+    textAlign: 'right',
+  },
+  amountInputCorrect: {
+    backgroundColor: 'rgba(34, 197, 94, 0.8)',
+  },
+  amountInputFailed: {
+    backgroundColor: 'rgba(239, 68, 68, 0.8)',
+  },
+});
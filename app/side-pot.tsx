@@ -0,0 +1,787 @@
+// Side Pot Screen - build the main and side pots, then award each one
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ImageBackground,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Platform,
+} from 'react-native';
+import { Stack } from 'expo-router';
+
+import { Card } from '@/lib/models/Card';
+import { createSeed } from '@/lib/models/Random';
+import { RoundStatus, RoundResult, SidePotStage, DealSettings } from '@/lib/poker/types';
+import { getHandDescription } from '@/lib/poker/HandEvaluator';
+import { HOLDEM } from '@/lib/poker/variants';
+import {
+  SidePotPlayer,
+  Pot,
+  PotAward,
+  dealSidePotHand,
+  buildPots,
+  isPotEqual,
+  arePotsEqual,
+  awardPots,
+  getPotName,
+} from '@/lib/poker/sidePots';
+import {
+  loadRoundResults,
+  saveRoundResult,
+  resetStats,
+  getCorrectPercentage,
+  getAverageCompletedTime,
+  formatTime,
+} from '@/lib/storage/roundResults';
+import { CardView } from '@/components/game/CardView';
+import { GlassyButton, ButtonColors } from '@/components/game/GlassyButton';
+
+// Platform-specific card sizes
+const isWeb = Platform.OS === 'web';
+const HOLE_CARD_WIDTH = isWeb ? 50 : 36;
+const HOLE_CARD_HEIGHT = isWeb ? 70 : 50;
+const COMMUNITY_CARD_WIDTH = isWeb ? 80 : 55;
+const COMMUNITY_CARD_HEIGHT = isWeb ? 112 : 77;
+
+const PLAYER_COUNT_OPTIONS = [3, 4, 5, 6] as const;
+
+interface PotAnswer {
+  amount: string;
+  eligibleSeats: Set<number>;
+}
+
+function createEmptyPotAnswer(): PotAnswer {
+  return { amount: '', eligibleSeats: new Set() };
+}
+
+function potAnswerToPot(answer: PotAnswer): Pot {
+  return {
+    amount: parseInt(answer.amount, 10) || 0,
+    eligibleSeats: [...answer.eligibleSeats],
+  };
+}
+
+export default function SidePotScreen() {
+  // Settings state
+  const [selectedPlayerCount, setSelectedPlayerCount] = useState(4);
+
+  // Game state
+  const [gameStarted, setGameStarted] = useState(false);
+  // Seed and settings behind the current deal, recorded with the round
+  const [dealSettings, setDealSettings] = useState<DealSettings>({});
+  const [stage, setStage] = useState<SidePotStage>('build');
+  const [players, setPlayers] = useState<SidePotPlayer[]>([]);
+  const [communityCards, setCommunityCards] = useState<Card[]>([]);
+  const [pots, setPots] = useState<Pot[]>([]);
+  const [awards, setAwards] = useState<PotAward[]>([]);
+
+  // Answer state
+  const [potAnswers, setPotAnswers] = useState<PotAnswer[]>([createEmptyPotAnswer()]);
+  const [potsChecked, setPotsChecked] = useState(false);
+  const [winnerAnswers, setWinnerAnswers] = useState<Set<number>[]>([]);
+  const [winnersChecked, setWinnersChecked] = useState(false);
+
+  // Timer & stats state
+  const [timerStartTime, setTimerStartTime] = useState<Date | null>(null);
+  const [currentElapsedTime, setCurrentElapsedTime] = useState(0);
+  const [timerActive, setTimerActive] = useState(false);
+  const [roundStatus, setRoundStatus] = useState<RoundStatus>('incomplete');
+  const [hadFailureThisRound, setHadFailureThisRound] = useState(false);
+  const [roundResults, setRoundResults] = useState<RoundResult[]>([]);
+
+  // Load round results on mount
+  useEffect(() => {
+    loadRoundResults('sidePot').then(setRoundResults);
+  }, []);
+
+  // Timer effect
+  useEffect(() => {
+    if (!timerActive || !timerStartTime) return;
+
+    const interval = setInterval(() => {
+      setCurrentElapsedTime(
+        (new Date().getTime() - timerStartTime.getTime()) / 1000
+      );
+    }, 100);
+
+    return () => clearInterval(interval);
+  }, [timerActive, timerStartTime]);
+
+  const recordResult = useCallback(
+    (isCorrect: boolean) => {
+      if (!timerActive || !timerStartTime) return;
+      const elapsedTime = (new Date().getTime() - timerStartTime.getTime()) / 1000;
+      const result: RoundResult = {
+        isCorrect,
+        timeTaken: elapsedTime,
+        date: new Date().toISOString(),
+        ...dealSettings,
+      };
+      saveRoundResult(result, 'sidePot');
+      setRoundResults((prev) => [...prev.slice(-19), result]);
+    },
+    [timerActive, timerStartTime, dealSettings]
+  );
+
+  const startGame = useCallback(() => {
+    // Save incomplete round if timer was running
+    recordResult(false);
+
+    const seed = createSeed();
+    const deal = dealSidePotHand(selectedPlayerCount, seed);
+    setDealSettings({ seed, playerCount: selectedPlayerCount });
+    const newPots = buildPots(deal.players);
+    setPlayers(deal.players);
+    setCommunityCards(deal.communityCards);
+    setPots(newPots);
+    setAwards(awardPots(newPots, deal.players, deal.communityCards));
+
+    // Reset all state
+    setStage('build');
+    setPotAnswers([createEmptyPotAnswer()]);
+    setPotsChecked(false);
+    setWinnerAnswers(newPots.map(() => new Set()));
+    setWinnersChecked(false);
+    setRoundStatus('incomplete');
+    setHadFailureThisRound(false);
+    setTimerStartTime(new Date());
+    setCurrentElapsedTime(0);
+    setTimerActive(true);
+    setGameStarted(true);
+  }, [selectedPlayerCount, recordResult]);
+
+  const updatePotAmount = useCallback((potIndex: number, amount: string) => {
+    setPotAnswers((prev) =>
+      prev.map((answer, i) =>
+        i === potIndex ? { ...answer, amount: amount.replace(/[^0-9]/g, '') } : answer
+      )
+    );
+    setPotsChecked(false);
+  }, []);
+
+  const togglePotSeat = useCallback((potIndex: number, seat: number) => {
+    setPotAnswers((prev) =>
+      prev.map((answer, i) => {
+        if (i !== potIndex) return answer;
+        const eligibleSeats = new Set(answer.eligibleSeats);
+        if (eligibleSeats.has(seat)) {
+          eligibleSeats.delete(seat);
+        } else {
+          eligibleSeats.add(seat);
+        }
+        return { ...answer, eligibleSeats };
+      })
+    );
+    setPotsChecked(false);
+  }, []);
+
+  const addPot = useCallback(() => {
+    setPotAnswers((prev) => [...prev, createEmptyPotAnswer()]);
+    setPotsChecked(false);
+  }, []);
+
+  const removePot = useCallback(() => {
+    setPotAnswers((prev) => (prev.length > 1 ? prev.slice(0, -1) : prev));
+    setPotsChecked(false);
+  }, []);
+
+  const checkPots = useCallback(() => {
+    setPotsChecked(true);
+    if (arePotsEqual(pots, potAnswers.map(potAnswerToPot))) {
+      setRoundStatus('incomplete');
+      setStage('award');
+    } else {
+      setRoundStatus('failed');
+      setHadFailureThisRound(true);
+    }
+  }, [pots, potAnswers]);
+
+  const toggleWinner = useCallback((potIndex: number, seat: number) => {
+    setWinnerAnswers((prev) =>
+      prev.map((winners, i) => {
+        if (i !== potIndex) return winners;
+        const newSet = new Set(winners);
+        if (newSet.has(seat)) {
+          newSet.delete(seat);
+        } else {
+          newSet.add(seat);
+        }
+        return newSet;
+      })
+    );
+    setWinnersChecked(false);
+  }, []);
+
+  const isWinnerAnswerCorrect = useCallback(
+    (potIndex: number): boolean => {
+      const expected = awards[potIndex].winnerSeats;
+      const answered = winnerAnswers[potIndex] ?? new Set<number>();
+      return expected.length === answered.size && expected.every((seat) => answered.has(seat));
+    },
+    [awards, winnerAnswers]
+  );
+
+  const checkWinners = useCallback(() => {
+    setWinnersChecked(true);
+    const allCorrect = awards.every((_, i) => isWinnerAnswerCorrect(i));
+
+    if (allCorrect) {
+      setRoundStatus('correct');
+      recordResult(!hadFailureThisRound);
+      setTimerActive(false);
+    } else {
+      setRoundStatus('failed');
+      setHadFailureThisRound(true);
+    }
+  }, [awards, isWinnerAnswerCorrect, recordResult, hadFailureThisRound]);
+
+  const handleResetStats = useCallback(() => {
+    resetStats('sidePot');
+    setRoundResults([]);
+  }, []);
+
+  const getPotAnswerColor = (potIndex: number): string => {
+    if (!potsChecked) return 'rgba(0, 0, 0, 0.25)';
+    const expected = pots[potIndex];
+    const isCorrect = expected && isPotEqual(expected, potAnswerToPot(potAnswers[potIndex]));
+    return isCorrect ? 'rgba(34, 197, 94, 0.35)' : 'rgba(239, 68, 68, 0.35)';
+  };
+
+  const getWinnerButtonColor = (potIndex: number, seat: number): string => {
+    const isSelected = winnerAnswers[potIndex]?.has(seat) ?? false;
+
+    if (!winnersChecked) {
+      return isSelected ? 'rgba(59, 130, 246, 0.8)' : 'rgba(128, 128, 128, 0.6)';
+    }
+
+    if (isSelected) {
+      return awards[potIndex].winnerSeats.includes(seat)
+        ? 'rgba(34, 197, 94, 0.8)'
+        : 'rgba(239, 68, 68, 0.8)';
+    }
+
+    return 'rgba(128, 128, 128, 0.6)';
+  };
+
+  // Render settings view
+  const renderSettingsView = () => (
+    <View style={styles.settingsContainer}>
+      {roundResults.length > 0 && (
+        <View style={styles.statsContainer}>
+          <View style={styles.statsRow}>
+            <Text style={styles.statsText}>
+              {getCorrectPercentage(roundResults).toFixed(0)}% correct
+            </Text>
+            <Text style={styles.statsText}>
+              Avg: {formatTime(getAverageCompletedTime(roundResults))}
+            </Text>
+          </View>
+          <Text style={styles.statsSubtext}>({roundResults.length} rounds)</Text>
+        </View>
+      )}
+
+      <Text style={styles.sectionLabel}>Number of players:</Text>
+      <View style={styles.optionRow}>
+        {PLAYER_COUNT_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[
+              styles.optionButton,
+              selectedPlayerCount === option && styles.optionButtonSelectedOrange,
+            ]}
+            onPress={() => setSelectedPlayerCount(option)}
+          >
+            <Text style={styles.optionButtonText}>{option}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={{ marginTop: 25 }}>
+        <GlassyButton
+          title="Start"
+          onPress={startGame}
+          baseColor={ButtonColors.green}
+          width={150}
+          height={50}
+          fontSize={20}
+        />
+      </View>
+    </View>
+  );
+
+  const renderPlayerRow = (player: SidePotPlayer, showCards: boolean) => (
+    <View key={player.seat} style={styles.playerRow}>
+      <Text style={styles.seatText}>Seat {player.seat}</Text>
+      {showCards && !player.folded ? (
+        <View style={styles.holeCards}>
+          {player.hand.cards.map((card) => (
+            <CardView key={card.id} card={card} width={HOLE_CARD_WIDTH} height={HOLE_CARD_HEIGHT} />
+          ))}
+        </View>
+      ) : (
+        <Text style={styles.playerDetailText}>Stack {player.stack}</Text>
+      )}
+      <View style={styles.playerAction}>
+        <Text style={styles.playerBetText}>{player.contribution}</Text>
+        {player.allIn && <Text style={styles.allInText}>ALL-IN</Text>}
+        {player.folded && <Text style={styles.foldedText}>FOLDED</Text>}
+      </View>
+      {showCards && roundStatus === 'correct' && !player.folded && (
+        <Text style={styles.handDescription}>
+          {getHandDescription(player.hand.cards, communityCards, HOLDEM)}
+        </Text>
+      )}
+    </View>
+  );
+
+  const renderBuildStage = () => (
+    <>
+      <Text style={styles.instructionText}>
+        Build the main pot and each side pot, then mark who is eligible.
+      </Text>
+
+      {players.map((player) => renderPlayerRow(player, false))}
+
+      {potAnswers.map((answer, potIndex) => (
+        <View
+          key={potIndex}
+          style={[styles.potCard, { backgroundColor: getPotAnswerColor(potIndex) }]}
+        >
+          <View style={styles.potHeader}>
+            <Text style={styles.potName}>{getPotName(potIndex)}</Text>
+            <TextInput
+              style={styles.amountInput}
+              value={answer.amount}
+              onChangeText={(text) => updatePotAmount(potIndex, text)}
+              keyboardType="number-pad"
+              placeholder="Amount"
+              placeholderTextColor="rgba(255, 255, 255, 0.4)"
+            />
+          </View>
+          <View style={styles.seatToggleRow}>
+            {players.map((player) => (
+              <TouchableOpacity
+                key={player.seat}
+                style={[
+                  styles.seatToggle,
+                  answer.eligibleSeats.has(player.seat) && styles.seatToggleSelected,
+                ]}
+                onPress={() => togglePotSeat(potIndex, player.seat)}
+              >
+                <Text style={styles.seatToggleText}>{player.seat}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      ))}
+
+      <View style={styles.potButtons}>
+        <GlassyButton
+          title="Add Pot"
+          onPress={addPot}
+          baseColor={ButtonColors.purple}
+          width={110}
+          height={35}
+          fontSize={14}
+        />
+        <GlassyButton
+          title="Remove Pot"
+          onPress={removePot}
+          baseColor={ButtonColors.orange}
+          width={110}
+          height={35}
+          fontSize={14}
+          disabled={potAnswers.length <= 1}
+        />
+      </View>
+
+      <View style={styles.actionButtonContainer}>
+        <GlassyButton
+          title="Check Pots"
+          onPress={checkPots}
+          baseColor={ButtonColors.green}
+          width={200}
+          height={40}
+          fontSize={16}
+        />
+      </View>
+    </>
+  );
+
+  const renderAwardStage = () => (
+    <>
+      <Text style={styles.instructionText}>Award each pot to its winner.</Text>
+
+      {players.map((player) => renderPlayerRow(player, true))}
+
+      {awards.map((award, potIndex) => (
+        <View key={potIndex} style={styles.potCard}>
+          <View style={styles.potHeader}>
+            <Text style={styles.potName}>{getPotName(potIndex)}</Text>
+            <Text style={styles.potAmount}>{award.pot.amount}</Text>
+          </View>
+          <View style={styles.seatToggleRow}>
+            {award.pot.eligibleSeats.map((seat) => (
+              <TouchableOpacity
+                key={seat}
+                style={[styles.seatToggle, { backgroundColor: getWinnerButtonColor(potIndex, seat) }]}
+                onPress={() => toggleWinner(potIndex, seat)}
+              >
+                <Text style={styles.seatToggleText}>{seat}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {roundStatus === 'correct' && (
+            <Text style={styles.payoutText}>
+              {award.winnerSeats
+                .map((seat) => `Seat ${seat} wins ${award.payouts[seat]}`)
+                .join(', ')}
+            </Text>
+          )}
+        </View>
+      ))}
+
+      {roundStatus !== 'correct' && (
+        <View style={styles.actionButtonContainer}>
+          <GlassyButton
+            title="Check Winners"
+            onPress={checkWinners}
+            baseColor={ButtonColors.green}
+            width={200}
+            height={40}
+            fontSize={16}
+          />
+        </View>
+      )}
+    </>
+  );
+
+  // Render game view
+  const renderGameView = () => (
+    <View style={styles.fullGameContainer}>
+      {/* Header */}
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          {hadFailureThisRound ? (
+            <Text style={styles.statusFailed}>FAILED</Text>
+          ) : roundStatus === 'correct' ? (
+            <Text style={styles.statusCorrect}>CORRECT</Text>
+          ) : (
+            <Text style={styles.headerTitle}>Side Pot</Text>
+          )}
+        </View>
+        <Text style={styles.timerText}>{formatTime(currentElapsedTime)}</Text>
+      </View>
+
+      {/* Stats line */}
+      <View style={styles.statsLine}>
+        <Text style={styles.statsLineText}>{players.length} players</Text>
+        {roundResults.length > 0 && (
+          <Text style={styles.statsLineText}>
+            {getCorrectPercentage(roundResults).toFixed(0)}% | Avg:{' '}
+            {formatTime(getAverageCompletedTime(roundResults))}
+          </Text>
+        )}
+      </View>
+
+      <ScrollView style={styles.handsScroll} contentContainerStyle={styles.handsContent}>
+        {stage === 'build' ? renderBuildStage() : renderAwardStage()}
+      </ScrollView>
+
+      {/* Footer with community cards */}
+      <View style={styles.footer}>
+        {stage === 'award' && (
+          <View style={styles.communityCards}>
+            {communityCards.map((card) => (
+              <CardView
+                key={card.id}
+                card={card}
+                width={COMMUNITY_CARD_WIDTH}
+                height={COMMUNITY_CARD_HEIGHT}
+              />
+            ))}
+          </View>
+        )}
+        <GlassyButton
+          title="New Deal"
+          onPress={startGame}
+          baseColor={ButtonColors.blue}
+          width={120}
+          height={40}
+          fontSize={14}
+        />
+      </View>
+    </View>
+  );
+
+  return (
+    <ImageBackground
+      source={require('@/assets/images/felt-background.jpg')}
+      style={styles.container}
+      imageStyle={styles.backgroundImage}
+      resizeMode="cover"
+    >
+      <Stack.Screen
+        options={{
+          title: 'Side Pot',
+          headerStyle: { backgroundColor: '#1a472a' },
+          headerTintColor: 'white',
+          headerRight: () => (
+            <TouchableOpacity onPress={handleResetStats} style={{ marginRight: 15 }}>
+              <Text style={{ color: 'white' }}>Reset</Text>
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      {!gameStarted && renderSettingsView()}
+      {gameStarted && renderGameView()}
+    </ImageBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    minHeight: Platform.OS === 'web' ? '100%' as any : undefined,
+  },
+  backgroundImage: {
+    width: '100%',
+    height: '100%',
+  },
+  settingsContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 20,
+  },
+  statsContainer: {
+    marginBottom: 30,
+    alignItems: 'center',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 20,
+  },
+  statsText: {
+    fontSize: 18,
+    color: 'rgba(255, 255, 255, 0.9)',
+  },
+  statsSubtext: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: 4,
+  },
+  sectionLabel: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: 'white',
+    marginBottom: 10,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 15,
+  },
+  optionButton: {
+    width: 60,
+    height: 50,
+    backgroundColor: 'rgba(128, 128, 128, 0.6)',
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  optionButtonSelectedOrange: {
+    backgroundColor: 'rgba(249, 115, 22, 0.8)',
+  },
+  optionButtonText: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: 'white',
+  },
+  fullGameContainer: {
+    flex: 1,
+    ...(isWeb ? { maxWidth: 600, alignSelf: 'center' as const, width: '100%' } : {}),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 10,
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: 'white',
+  },
+  statusCorrect: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#22c55e',
+  },
+  statusFailed: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#ef4444',
+  },
+  timerText: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: 'white',
+  },
+  statsLine: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 15,
+    paddingBottom: 5,
+  },
+  statsLineText: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  handsScroll: {
+    flex: 1,
+  },
+  handsContent: {
+    paddingTop: 10,
+    paddingBottom: 20,
+    paddingHorizontal: 15,
+    gap: 10,
+  },
+  instructionText: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+    textAlign: 'center',
+    marginBottom: 5,
+  },
+  playerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 4,
+  },
+  seatText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+    width: 60,
+  },
+  holeCards: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  playerDetailText: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+    width: 100,
+  },
+  playerAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  playerBetText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#facc15',
+  },
+  allInText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#f97316',
+  },
+  foldedText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: 'rgba(255, 255, 255, 0.5)',
+  },
+  handDescription: {
+    flex: 1,
+    fontSize: isWeb ? 12 : 10,
+    color: 'white',
+    textAlign: 'right',
+  },
+  potCard: {
+    borderRadius: 10,
+    padding: 10,
+    gap: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.25)',
+  },
+  potHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  potName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
+  potAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#facc15',
+  },
+  amountInput: {
+    width: 100,
+    height: 36,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    color: 'white',
+    fontSize: 16,
+    textAlign: 'right',
+  },
+  seatToggleRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  seatToggle: {
+    width: 40,
+    height: 35,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(128, 128, 128, 0.6)',
+  },
+  seatToggleSelected: {
+    backgroundColor: 'rgba(59, 130, 246, 0.8)',
+  },
+  seatToggleText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  payoutText: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.9)',
+  },
+  potButtons: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 15,
+  },
+  actionButtonContainer: {
+    alignItems: 'center',
+    marginVertical: 10,
+  },
+  footer: {
+    paddingVertical: isWeb ? 15 : 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+    alignItems: 'center',
+    gap: isWeb ? 15 : 10,
+  },
+  communityCards: {
+    flexDirection: 'row',
+    gap: isWeb ? 12 : 8,
+  },
+});
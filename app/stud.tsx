@@ -0,0 +1,701 @@
+// Stud Screen - bring-in, first to act on each street and the hi/lo winners
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ImageBackground,
+  ScrollView,
+  TouchableOpacity,
+  Platform,
+} from 'react-native';
+import { Stack } from 'expo-router';
+
+import { createSeed } from '@/lib/models/Random';
+import { HandAnswer, RoundStatus, RoundResult, StudStage, DealSettings } from '@/lib/poker/types';
+import { describeHighHand, describeLowHand } from '@/lib/poker/HandEvaluator';
+import { isHighWinner, isLowWinner } from '@/lib/poker/showdown';
+import {
+  StudGame,
+  StudPlayer,
+  STUD,
+  STUD_GAMES,
+  STUD_STREETS,
+  dealStudHand,
+  findFirstToAct,
+  getStreetCards,
+  getStreetName,
+  isFaceUp,
+  resolveStudShowdown,
+} from '@/lib/poker/stud';
+import {
+  loadRoundResults,
+  saveRoundResult,
+  resetStats,
+  getCorrectPercentage,
+  getAverageCompletedTime,
+  formatTime,
+} from '@/lib/storage/roundResults';
+import { CardView } from '@/components/game/CardView';
+import { GlassyButton, ButtonColors } from '@/components/game/GlassyButton';
+
+// Platform-specific card sizes
+const isWeb = Platform.OS === 'web';
+const STUD_CARD_WIDTH = isWeb ? 60 : 44;
+const STUD_CARD_HEIGHT = isWeb ? 84 : 62;
+const STUD_CARD_OFFSET = isWeb ? 32 : 22;
+
+const PLAYER_COUNT_OPTIONS = [2, 3, 4, 5, 6, 7] as const;
+
+export default function StudScreen() {
+  // Settings state
+  const [selectedGame, setSelectedGame] = useState<StudGame>(STUD);
+  const [selectedPlayerCount, setSelectedPlayerCount] = useState(5);
+
+  // Game state
+  const [gameStarted, setGameStarted] = useState(false);
+  // Seed and settings behind the current deal, recorded with the round
+  const [dealSettings, setDealSettings] = useState<DealSettings>({});
+  const [players, setPlayers] = useState<StudPlayer[]>([]);
+  const [stage, setStage] = useState<StudStage>('third');
+  const [wrongSeat, setWrongSeat] = useState<number | null>(null);
+
+  // Showdown answer state
+  const [selectedAnswers, setSelectedAnswers] = useState<Map<number, Set<HandAnswer>>>(new Map());
+  const [noLowSelected, setNoLowSelected] = useState(false);
+  const [answersChecked, setAnswersChecked] = useState(false);
+
+  // Timer & stats state
+  const [timerStartTime, setTimerStartTime] = useState<Date | null>(null);
+  const [currentElapsedTime, setCurrentElapsedTime] = useState(0);
+  const [timerActive, setTimerActive] = useState(false);
+  const [roundStatus, setRoundStatus] = useState<RoundStatus>('incomplete');
+  const [hadFailureThisRound, setHadFailureThisRound] = useState(false);
+  const [roundResults, setRoundResults] = useState<RoundResult[]>([]);
+
+  // Load round results on mount
+  useEffect(() => {
+    loadRoundResults('stud').then(setRoundResults);
+  }, []);
+
+  // Timer effect
+  useEffect(() => {
+    if (!timerActive || !timerStartTime) return;
+
+    const interval = setInterval(() => {
+      setCurrentElapsedTime(
+        (new Date().getTime() - timerStartTime.getTime()) / 1000
+      );
+    }, 100);
+
+    return () => clearInterval(interval);
+  }, [timerActive, timerStartTime]);
+
+  // Winners once all seven cards are out
+  const showdown = useMemo(
+    () => resolveStudShowdown(players, selectedGame),
+    [players, selectedGame]
+  );
+
+  const recordResult = useCallback(
+    (isCorrect: boolean) => {
+      if (!timerActive || !timerStartTime) return;
+      const elapsedTime = (new Date().getTime() - timerStartTime.getTime()) / 1000;
+      const result: RoundResult = {
+        isCorrect,
+        timeTaken: elapsedTime,
+        date: new Date().toISOString(),
+        ...dealSettings,
+      };
+      saveRoundResult(result, 'stud');
+      setRoundResults((prev) => [...prev.slice(-19), result]);
+    },
+    [timerActive, timerStartTime, dealSettings]
+  );
+
+  const startGame = useCallback(() => {
+    // Save incomplete round if timer was running
+    recordResult(false);
+
+    const seed = createSeed();
+    setPlayers(dealStudHand(selectedPlayerCount, seed));
+    setDealSettings({ seed, variantId: selectedGame.id, playerCount: selectedPlayerCount });
+
+    // Reset all state
+    setStage('third');
+    setWrongSeat(null);
+    setSelectedAnswers(new Map());
+    setNoLowSelected(false);
+    setAnswersChecked(false);
+    setRoundStatus('incomplete');
+    setHadFailureThisRound(false);
+    setTimerStartTime(new Date());
+    setCurrentElapsedTime(0);
+    setTimerActive(true);
+    setGameStarted(true);
+  }, [selectedPlayerCount, selectedGame, recordResult]);
+
+  // Street questions: tap the seat that brings it in or acts first
+  const selectSeat = useCallback(
+    (seat: number) => {
+      if (stage === 'showdown') return;
+
+      if (seat !== findFirstToAct(players, stage)) {
+        setWrongSeat(seat);
+        setRoundStatus('failed');
+        setHadFailureThisRound(true);
+        return;
+      }
+
+      const nextIndex = STUD_STREETS.indexOf(stage) + 1;
+      setStage(nextIndex < STUD_STREETS.length ? STUD_STREETS[nextIndex] : 'showdown');
+      setWrongSeat(null);
+      setRoundStatus('incomplete');
+    },
+    [players, stage]
+  );
+
+  const selectAnswer = useCallback((playerIndex: number, answer: HandAnswer) => {
+    setSelectedAnswers((prev) => {
+      const newMap = new Map(prev);
+      const current = new Set(newMap.get(playerIndex) ?? []);
+      if (current.has(answer)) {
+        current.delete(answer);
+      } else {
+        current.add(answer);
+      }
+      newMap.set(playerIndex, current);
+      return newMap;
+    });
+    setAnswersChecked(false);
+  }, []);
+
+  const isAnswerCorrect = useCallback(
+    (playerIndex: number, answer: HandAnswer): boolean => {
+      const isSelected = selectedAnswers.get(playerIndex)?.has(answer) ?? false;
+      const wins =
+        answer === 'hi' ? isHighWinner(showdown, playerIndex) : isLowWinner(showdown, playerIndex);
+      return isSelected === wins;
+    },
+    [selectedAnswers, showdown]
+  );
+
+  const checkShowdown = useCallback(() => {
+    setAnswersChecked(true);
+
+    const allCorrect =
+      players.every(
+        (_, i) =>
+          isAnswerCorrect(i, 'hi') && (!selectedGame.isHiLo || isAnswerCorrect(i, 'low'))
+      ) &&
+      (!selectedGame.isHiLo || noLowSelected === (showdown.lowWinners.length === 0));
+
+    if (allCorrect) {
+      setRoundStatus('correct');
+      recordResult(!hadFailureThisRound);
+      setTimerActive(false);
+    } else {
+      setRoundStatus('failed');
+      setHadFailureThisRound(true);
+    }
+  }, [
+    players,
+    isAnswerCorrect,
+    selectedGame,
+    noLowSelected,
+    showdown,
+    recordResult,
+    hadFailureThisRound,
+  ]);
+
+  const handleResetStats = useCallback(() => {
+    resetStats('stud');
+    setRoundResults([]);
+  }, []);
+
+  const getButtonColor = (playerIndex: number, answer: HandAnswer): string => {
+    const isSelected = selectedAnswers.get(playerIndex)?.has(answer) ?? false;
+    if (!answersChecked) {
+      return isSelected ? 'rgba(59, 130, 246, 0.8)' : 'rgba(128, 128, 128, 0.6)';
+    }
+    if (isSelected || !isAnswerCorrect(playerIndex, answer)) {
+      return isAnswerCorrect(playerIndex, answer)
+        ? 'rgba(34, 197, 94, 0.8)'
+        : 'rgba(239, 68, 68, 0.8)';
+    }
+    return 'rgba(128, 128, 128, 0.6)';
+  };
+
+  const getNoLowButtonColor = (): string => {
+    if (!answersChecked) {
+      return noLowSelected ? 'rgba(59, 130, 246, 0.8)' : 'rgba(128, 128, 128, 0.6)';
+    }
+    const isCorrect = noLowSelected === (showdown.lowWinners.length === 0);
+    if (noLowSelected || !isCorrect) {
+      return isCorrect ? 'rgba(34, 197, 94, 0.8)' : 'rgba(239, 68, 68, 0.8)';
+    }
+    return 'rgba(128, 128, 128, 0.6)';
+  };
+
+  const getPrompt = (): string => {
+    if (stage === 'showdown') {
+      return selectedGame.isHiLo ? 'Pick the high and low winners' : 'Pick the winner';
+    }
+    if (stage === 'third') return 'Tap the bring-in';
+    return `Who acts first on ${getStreetName(stage).toLowerCase()}?`;
+  };
+
+  // Render settings view
+  const renderSettingsView = () => (
+    <View style={styles.settingsContainer}>
+      {roundResults.length > 0 && (
+        <View style={styles.statsContainer}>
+          <View style={styles.statsRow}>
+            <Text style={styles.statsText}>
+              {getCorrectPercentage(roundResults).toFixed(0)}% correct
+            </Text>
+            <Text style={styles.statsText}>
+              Avg: {formatTime(getAverageCompletedTime(roundResults))}
+            </Text>
+          </View>
+          <Text style={styles.statsSubtext}>({roundResults.length} rounds)</Text>
+        </View>
+      )}
+
+      <Text style={styles.sectionLabel}>Game:</Text>
+      <View style={styles.optionRow}>
+        {STUD_GAMES.map((game) => (
+          <TouchableOpacity
+            key={game.id}
+            style={[
+              styles.optionButton,
+              styles.optionButtonGame,
+              selectedGame.id === game.id && styles.optionButtonSelected,
+            ]}
+            onPress={() => setSelectedGame(game)}
+          >
+            <Text style={styles.optionButtonGameText}>{game.name}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={[styles.sectionLabel, { marginTop: 20 }]}>Number of players:</Text>
+      <View style={styles.optionRow}>
+        {PLAYER_COUNT_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[
+              styles.optionButton,
+              styles.optionButtonSmall,
+              selectedPlayerCount === option && styles.optionButtonSelectedOrange,
+            ]}
+            onPress={() => setSelectedPlayerCount(option)}
+          >
+            <Text style={styles.optionButtonText}>{option}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={{ marginTop: 25 }}>
+        <GlassyButton
+          title="Start"
+          onPress={startGame}
+          baseColor={ButtonColors.green}
+          width={150}
+          height={50}
+          fontSize={20}
+        />
+      </View>
+    </View>
+  );
+
+  const renderPlayerCards = (player: StudPlayer) => {
+    const cards = stage === 'showdown' ? player.hand.cards : getStreetCards(player, stage);
+    return (
+      <View style={styles.handCardsContainer}>
+        <View style={styles.handCards}>
+          {cards.map((card, cardIndex) => (
+            <View
+              key={card.id}
+              style={[styles.handCardWrapper, { left: cardIndex * STUD_CARD_OFFSET }]}
+            >
+              <CardView
+                card={card}
+                width={STUD_CARD_WIDTH}
+                height={STUD_CARD_HEIGHT}
+                // Up cards sit raised; down cards stay hidden until showdown
+                elevated={isFaceUp(cardIndex)}
+                faceDown={!isFaceUp(cardIndex) && stage !== 'showdown'}
+              />
+            </View>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  // Render game view
+  const renderGameView = () => (
+    <View style={styles.fullGameContainer}>
+      {/* Header */}
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          {hadFailureThisRound ? (
+            <Text style={styles.statusFailed}>FAILED</Text>
+          ) : roundStatus === 'correct' ? (
+            <Text style={styles.statusCorrect}>CORRECT</Text>
+          ) : (
+            <Text style={styles.headerTitle}>{selectedGame.name}</Text>
+          )}
+        </View>
+        <Text style={styles.timerText}>{formatTime(currentElapsedTime)}</Text>
+      </View>
+
+      {/* Stats line */}
+      <View style={styles.statsLine}>
+        <Text style={styles.statsLineText}>
+          {stage === 'showdown' ? 'Showdown' : getStreetName(stage)}
+        </Text>
+        {roundResults.length > 0 && (
+          <Text style={styles.statsLineText}>
+            {getCorrectPercentage(roundResults).toFixed(0)}% | Avg:{' '}
+            {formatTime(getAverageCompletedTime(roundResults))}
+          </Text>
+        )}
+      </View>
+
+      {/* Scrollable players area */}
+      <ScrollView style={styles.handsScroll} contentContainerStyle={styles.handsContent}>
+        {players.map((player, playerIndex) =>
+          stage !== 'showdown' ? (
+            <TouchableOpacity
+              key={player.hand.id}
+              style={[styles.handRow, wrongSeat === player.seat && styles.handRowWrong]}
+              onPress={() => selectSeat(player.seat)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.seatText}>{player.seat}</Text>
+              {renderPlayerCards(player)}
+            </TouchableOpacity>
+          ) : (
+            <View key={player.hand.id} style={styles.handRow}>
+              <Text style={styles.seatText}>{player.seat}</Text>
+              {renderPlayerCards(player)}
+
+              <View style={styles.answerButtons}>
+                <View style={styles.answerRow}>
+                  {roundStatus === 'correct' && (
+                    <Text style={styles.handDescription}>
+                      {describeHighHand(showdown.evaluations[playerIndex])}
+                    </Text>
+                  )}
+                  <TouchableOpacity
+                    style={[styles.answerButton, { backgroundColor: getButtonColor(playerIndex, 'hi') }]}
+                    onPress={() => selectAnswer(playerIndex, 'hi')}
+                  >
+                    <Text style={styles.answerButtonText}>Hi</Text>
+                  </TouchableOpacity>
+                </View>
+
+                {selectedGame.isHiLo && (
+                  <View style={styles.answerRow}>
+                    {roundStatus === 'correct' && (
+                      <Text style={styles.handDescription}>
+                        {describeLowHand(showdown.evaluations[playerIndex])}
+                      </Text>
+                    )}
+                    <TouchableOpacity
+                      style={[styles.answerButton, { backgroundColor: getButtonColor(playerIndex, 'low') }]}
+                      onPress={() => selectAnswer(playerIndex, 'low')}
+                    >
+                      <Text style={styles.answerButtonText}>Low</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+            </View>
+          )
+        )}
+
+        {stage === 'showdown' && selectedGame.isHiLo && (
+          <TouchableOpacity
+            style={[styles.noLowButton, { backgroundColor: getNoLowButtonColor() }]}
+            onPress={() => {
+              setNoLowSelected((prev) => !prev);
+              setAnswersChecked(false);
+            }}
+          >
+            <Text style={styles.noLowButtonText}>No Low</Text>
+          </TouchableOpacity>
+        )}
+
+        {stage === 'showdown' && roundStatus !== 'correct' && (
+          <View style={styles.actionButtonContainer}>
+            <GlassyButton
+              title="Check Winners"
+              onPress={checkShowdown}
+              baseColor={ButtonColors.green}
+              width={200}
+              height={40}
+              fontSize={16}
+            />
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Footer with the current question */}
+      <View style={styles.footer}>
+        <Text style={styles.promptText}>{getPrompt()}</Text>
+        <GlassyButton
+          title="New Deal"
+          onPress={startGame}
+          baseColor={ButtonColors.blue}
+          width={120}
+          height={40}
+          fontSize={14}
+        />
+      </View>
+    </View>
+  );
+
+  return (
+    <ImageBackground
+      source={require('@/assets/images/felt-background.jpg')}
+      style={styles.container}
+      imageStyle={styles.backgroundImage}
+      resizeMode="cover"
+    >
+      <Stack.Screen
+        options={{
+          title: 'Stud',
+          headerStyle: { backgroundColor: '#1a472a' },
+          headerTintColor: 'white',
+          headerRight: () => (
+            <TouchableOpacity onPress={handleResetStats} style={{ marginRight: 15 }}>
+              <Text style={{ color: 'white' }}>Reset</Text>
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      {!gameStarted && renderSettingsView()}
+      {gameStarted && renderGameView()}
+    </ImageBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    minHeight: Platform.OS === 'web' ? '100%' as any : undefined,
+  },
+  backgroundImage: {
+    width: '100%',
+    height: '100%',
+  },
+  settingsContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 20,
+  },
+  statsContainer: {
+    marginBottom: 30,
+    alignItems: 'center',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 20,
+  },
+  statsText: {
+    fontSize: 18,
+    color: 'rgba(255, 255, 255, 0.9)',
+  },
+  statsSubtext: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: 4,
+  },
+  sectionLabel: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: 'white',
+    marginBottom: 10,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 15,
+  },
+  optionButton: {
+    width: 60,
+    height: 50,
+    backgroundColor: 'rgba(128, 128, 128, 0.6)',
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  optionButtonSmall: {
+    width: 42,
+    height: 45,
+  },
+  optionButtonGame: {
+    width: 110,
+  },
+  optionButtonSelected: {
+    backgroundColor: 'rgba(59, 130, 246, 0.8)',
+  },
+  optionButtonSelectedOrange: {
+    backgroundColor: 'rgba(249, 115, 22, 0.8)',
+  },
+  optionButtonText: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: 'white',
+  },
+  optionButtonGameText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: 'white',
+  },
+  fullGameContainer: {
+    flex: 1,
+    ...(isWeb ? { maxWidth: 600, alignSelf: 'center' as const, width: '100%' } : {}),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 10,
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: 'white',
+  },
+  statusCorrect: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#22c55e',
+  },
+  statusFailed: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#ef4444',
+  },
+  timerText: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: 'white',
+  },
+  statsLine: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 15,
+    paddingBottom: 5,
+  },
+  statsLineText: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  handsScroll: {
+    flex: 1,
+  },
+  handsContent: {
+    paddingTop: 20,
+    paddingBottom: 20,
+    alignItems: 'center',
+  },
+  handRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    paddingVertical: 4,
+    marginBottom: 10,
+    borderRadius: 8,
+    width: '100%',
+  },
+  handRowWrong: {
+    backgroundColor: 'rgba(239, 68, 68, 0.35)',
+  },
+  seatText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: 'white',
+    width: 24,
+  },
+  handCardsContainer: {
+    width: isWeb ? 260 : 185,
+    height: isWeb ? 100 : 76,
+    justifyContent: 'flex-end',
+  },
+  handCards: {
+    position: 'relative',
+    height: isWeb ? 84 : 62,
+  },
+  handCardWrapper: {
+    position: 'absolute',
+  },
+  answerButtons: {
+    flex: 1,
+    gap: 5,
+  },
+  answerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  handDescription: {
+    fontSize: isWeb ? 12 : 10,
+    color: 'white',
+    textAlign: 'right',
+    flexShrink: 1,
+  },
+  answerButton: {
+    width: isWeb ? 70 : 50,
+    height: isWeb ? 40 : 35,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  answerButtonText: {
+    fontSize: isWeb ? 16 : 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  noLowButton: {
+    width: 100,
+    height: 40,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    alignSelf: 'center',
+    marginTop: 10,
+  },
+  noLowButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  actionButtonContainer: {
+    alignItems: 'center',
+    marginVertical: 10,
+  },
+  footer: {
+    paddingVertical: isWeb ? 15 : 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+    alignItems: 'center',
+    gap: isWeb ? 15 : 10,
+  },
+  promptText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: 'white',
+  },
+});
@@ -0,0 +1,604 @@
+// Three X Screen - chop a hi/lo pot three or more ways
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ImageBackground,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Platform,
+} from 'react-native';
+import { Stack } from 'expo-router';
+
+import { Card } from '@/lib/models/Card';
+import { createSeed } from '@/lib/models/Random';
+import {
+  PlayerHand,
+  RoundStatus,
+  RoundResult,
+  GameVariant,
+  OddChipRule,
+  DealSettings,
+} from '@/lib/poker/types';
+import { getHandDescription, getLowHandDescription } from '@/lib/poker/HandEvaluator';
+import { SplitPotResult, dealSplitPotHand, splitHiLoPot } from '@/lib/poker/splitPot';
+import { GAME_VARIANTS, OMAHA_HI_LO } from '@/lib/poker/variants';
+import {
+  loadRoundResults,
+  saveRoundResult,
+  resetStats,
+  getCorrectPercentage,
+  getAverageCompletedTime,
+  formatTime,
+} from '@/lib/storage/roundResults';
+import { CardView } from '@/components/game/CardView';
+import { GlassyButton, ButtonColors } from '@/components/game/GlassyButton';
+
+// Platform-specific card sizes
+const isWeb = Platform.OS === 'web';
+const HOLE_CARD_WIDTH = isWeb ? 70 : 50;
+const HOLE_CARD_HEIGHT = isWeb ? 98 : 70;
+const HOLE_CARD_OFFSET = isWeb ? 40 : 28;
+const COMMUNITY_CARD_WIDTH = isWeb ? 80 : 55;
+const COMMUNITY_CARD_HEIGHT = isWeb ? 112 : 77;
+
+const VARIANT_OPTIONS = GAME_VARIANTS.filter((variant) => variant.isHiLo);
+const PLAYER_COUNT_OPTIONS = [3, 4, 5, 6] as const;
+const ODD_CHIP_OPTIONS: { value: OddChipRule; label: string }[] = [
+  { value: 'seat', label: 'Seat' },
+  { value: 'suit', label: 'Suit' },
+];
+
+export default function ThreeXScreen() {
+  // Settings state
+  const [selectedVariant, setSelectedVariant] = useState<GameVariant>(OMAHA_HI_LO);
+  const [selectedPlayerCount, setSelectedPlayerCount] = useState(4);
+  const [selectedOddChipRule, setSelectedOddChipRule] = useState<OddChipRule>('seat');
+
+  // Game state
+  const [gameStarted, setGameStarted] = useState(false);
+  // Seed and settings behind the current deal, recorded with the round
+  const [dealSettings, setDealSettings] = useState<DealSettings>({});
+  const [hands, setHands] = useState<PlayerHand[]>([]);
+  const [communityCards, setCommunityCards] = useState<Card[]>([]);
+  const [split, setSplit] = useState<SplitPotResult | null>(null);
+
+  // Answer state
+  const [answers, setAnswers] = useState<string[]>([]);
+  const [answersChecked, setAnswersChecked] = useState(false);
+
+  // Timer & stats state
+  const [timerStartTime, setTimerStartTime] = useState<Date | null>(null);
+  const [currentElapsedTime, setCurrentElapsedTime] = useState(0);
+  const [timerActive, setTimerActive] = useState(false);
+  const [roundStatus, setRoundStatus] = useState<RoundStatus>('incomplete');
+  const [hadFailureThisRound, setHadFailureThisRound] = useState(false);
+  const [roundResults, setRoundResults] = useState<RoundResult[]>([]);
+
+  // Load round results on mount
+  useEffect(() => {
+    loadRoundResults('threeX').then(setRoundResults);
+  }, []);
+
+  // Timer effect
+  useEffect(() => {
+    if (!timerActive || !timerStartTime) return;
+
+    const interval = setInterval(() => {
+      setCurrentElapsedTime(
+        (new Date().getTime() - timerStartTime.getTime()) / 1000
+      );
+    }, 100);
+
+    return () => clearInterval(interval);
+  }, [timerActive, timerStartTime]);
+
+  const recordResult = useCallback(
+    (isCorrect: boolean) => {
+      if (!timerActive || !timerStartTime) return;
+      const elapsedTime = (new Date().getTime() - timerStartTime.getTime()) / 1000;
+      const result: RoundResult = {
+        isCorrect,
+        timeTaken: elapsedTime,
+        date: new Date().toISOString(),
+        ...dealSettings,
+      };
+      saveRoundResult(result, 'threeX');
+      setRoundResults((prev) => [...prev.slice(-19), result]);
+    },
+    [timerActive, timerStartTime, dealSettings]
+  );
+
+  const startGame = useCallback(() => {
+    // Save incomplete round if timer was running
+    recordResult(false);
+
+    const seed = createSeed();
+    const deal = dealSplitPotHand(selectedPlayerCount, selectedVariant, selectedOddChipRule, seed);
+    setDealSettings({
+      seed,
+      variantId: selectedVariant.id,
+      playerCount: selectedPlayerCount,
+      oddChipRule: selectedOddChipRule,
+    });
+    setHands(deal.hands);
+    setCommunityCards(deal.communityCards);
+    setSplit(
+      splitHiLoPot(
+        deal.amount,
+        deal.hands,
+        deal.communityCards,
+        selectedVariant,
+        selectedOddChipRule
+      )
+    );
+
+    // Reset all state
+    setAnswers(deal.hands.map(() => ''));
+    setAnswersChecked(false);
+    setRoundStatus('incomplete');
+    setHadFailureThisRound(false);
+    setTimerStartTime(new Date());
+    setCurrentElapsedTime(0);
+    setTimerActive(true);
+    setGameStarted(true);
+  }, [selectedPlayerCount, selectedVariant, selectedOddChipRule, recordResult]);
+
+  const updateAnswer = useCallback((handIndex: number, text: string) => {
+    setAnswers((prev) =>
+      prev.map((answer, i) => (i === handIndex ? text.replace(/[^0-9]/g, '') : answer))
+    );
+    setAnswersChecked(false);
+  }, []);
+
+  const isAnswerCorrect = useCallback(
+    (handIndex: number): boolean => {
+      if (!split) return false;
+      return (parseInt(answers[handIndex], 10) || 0) === split.payouts[handIndex];
+    },
+    [split, answers]
+  );
+
+  const checkAnswers = useCallback(() => {
+    setAnswersChecked(true);
+    const allCorrect = hands.every((_, i) => isAnswerCorrect(i));
+
+    if (allCorrect) {
+      setRoundStatus('correct');
+      recordResult(!hadFailureThisRound);
+      setTimerActive(false);
+    } else {
+      setRoundStatus('failed');
+      setHadFailureThisRound(true);
+    }
+  }, [hands, isAnswerCorrect, recordResult, hadFailureThisRound]);
+
+  const handleResetStats = useCallback(() => {
+    resetStats('threeX');
+    setRoundResults([]);
+  }, []);
+
+  const getAnswerColor = (handIndex: number): string => {
+    if (!answersChecked) return 'rgba(255, 255, 255, 0.15)';
+    return isAnswerCorrect(handIndex) ? 'rgba(34, 197, 94, 0.8)' : 'rgba(239, 68, 68, 0.8)';
+  };
+
+  const getSplitSummary = (): string => {
+    if (!split) return '';
+    const high = split.highWinners.map((i) => `Seat ${i + 1}`).join(' & ');
+    if (split.lowWinners.length === 0) return `High: ${high} | No low`;
+    const low = split.lowWinners.map((i) => `Seat ${i + 1}`).join(' & ');
+    return `High: ${high} | Low: ${low}`;
+  };
+
+  // Render settings view
+  const renderSettingsView = () => (
+    <View style={styles.settingsContainer}>
+      {roundResults.length > 0 && (
+        <View style={styles.statsContainer}>
+          <View style={styles.statsRow}>
+            <Text style={styles.statsText}>
+              {getCorrectPercentage(roundResults).toFixed(0)}% correct
+            </Text>
+            <Text style={styles.statsText}>
+              Avg: {formatTime(getAverageCompletedTime(roundResults))}
+            </Text>
+          </View>
+          <Text style={styles.statsSubtext}>({roundResults.length} rounds)</Text>
+        </View>
+      )}
+
+      <Text style={styles.sectionLabel}>Game:</Text>
+      <View style={[styles.optionRow, styles.optionRowWrap]}>
+        {VARIANT_OPTIONS.map((variant) => (
+          <TouchableOpacity
+            key={variant.id}
+            style={[
+              styles.optionButton,
+              styles.optionButtonGame,
+              selectedVariant.id === variant.id && styles.optionButtonSelected,
+            ]}
+            onPress={() => setSelectedVariant(variant)}
+          >
+            <Text style={styles.optionButtonGameText}>{variant.name}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={[styles.sectionLabel, { marginTop: 20 }]}>Number of players:</Text>
+      <View style={styles.optionRow}>
+        {PLAYER_COUNT_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[
+              styles.optionButton,
+              selectedPlayerCount === option && styles.optionButtonSelectedOrange,
+            ]}
+            onPress={() => setSelectedPlayerCount(option)}
+          >
+            <Text style={styles.optionButtonText}>{option}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={[styles.sectionLabel, { marginTop: 20 }]}>Odd chip by:</Text>
+      <View style={styles.optionRow}>
+        {ODD_CHIP_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.value}
+            style={[
+              styles.optionButton,
+              styles.optionButtonWide,
+              selectedOddChipRule === option.value && styles.optionButtonSelected,
+            ]}
+            onPress={() => setSelectedOddChipRule(option.value)}
+          >
+            <Text style={styles.optionButtonText}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={{ marginTop: 25 }}>
+        <GlassyButton
+          title="Start"
+          onPress={startGame}
+          baseColor={ButtonColors.green}
+          width={150}
+          height={50}
+          fontSize={20}
+        />
+      </View>
+    </View>
+  );
+
+  // Render game view
+  const renderGameView = () => (
+    <View style={styles.fullGameContainer}>
+      {/* Header */}
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          {hadFailureThisRound ? (
+            <Text style={styles.statusFailed}>FAILED</Text>
+          ) : roundStatus === 'correct' ? (
+            <Text style={styles.statusCorrect}>CORRECT</Text>
+          ) : (
+            <Text style={styles.headerTitle}>Three X</Text>
+          )}
+        </View>
+        <Text style={styles.timerText}>{formatTime(currentElapsedTime)}</Text>
+      </View>
+
+      {/* Stats line */}
+      <View style={styles.statsLine}>
+        <Text style={styles.statsLineText}>
+          Pot {split?.amount} | Odd chip by {selectedOddChipRule}
+        </Text>
+        {roundResults.length > 0 && (
+          <Text style={styles.statsLineText}>
+            {getCorrectPercentage(roundResults).toFixed(0)}% | Avg:{' '}
+            {formatTime(getAverageCompletedTime(roundResults))}
+          </Text>
+        )}
+      </View>
+
+      {/* Scrollable hands area */}
+      <ScrollView style={styles.handsScroll} contentContainerStyle={styles.handsContent}>
+        {hands.map((hand, handIndex) => (
+          <View key={hand.id} style={styles.handRow}>
+            <Text style={styles.seatText}>{handIndex + 1}</Text>
+            <View style={styles.handCardsContainer}>
+              <View style={styles.handCards}>
+                {hand.cards.map((card, cardIndex) => (
+                  <View
+                    key={card.id}
+                    style={[styles.handCardWrapper, { left: cardIndex * HOLE_CARD_OFFSET }]}
+                  >
+                    <CardView card={card} width={HOLE_CARD_WIDTH} height={HOLE_CARD_HEIGHT} />
+                  </View>
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.answerColumn}>
+              <TextInput
+                style={[styles.amountInput, { backgroundColor: getAnswerColor(handIndex) }]}
+                value={answers[handIndex]}
+                onChangeText={(text) => updateAnswer(handIndex, text)}
+                editable={roundStatus !== 'correct'}
+                keyboardType="number-pad"
+                placeholder="0"
+                placeholderTextColor="rgba(255, 255, 255, 0.4)"
+              />
+              {roundStatus === 'correct' && (
+                <Text style={styles.handDescription}>
+                  {getHandDescription(hand.cards, communityCards, selectedVariant)} /{' '}
+                  {getLowHandDescription(hand.cards, communityCards, selectedVariant)}
+                </Text>
+              )}
+            </View>
+          </View>
+        ))}
+
+        {roundStatus === 'correct' && <Text style={styles.summaryText}>{getSplitSummary()}</Text>}
+
+        {roundStatus !== 'correct' && (
+          <View style={styles.actionButtonContainer}>
+            <GlassyButton
+              title="Check Chips"
+              onPress={checkAnswers}
+              baseColor={ButtonColors.green}
+              width={200}
+              height={40}
+              fontSize={16}
+            />
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Footer with community cards */}
+      <View style={styles.footer}>
+        <View style={styles.communityCards}>
+          {communityCards.map((card) => (
+            <CardView
+              key={card.id}
+              card={card}
+              width={COMMUNITY_CARD_WIDTH}
+              height={COMMUNITY_CARD_HEIGHT}
+            />
+          ))}
+        </View>
+        <GlassyButton
+          title="New Deal"
+          onPress={startGame}
+          baseColor={ButtonColors.blue}
+          width={120}
+          height={40}
+          fontSize={14}
+        />
+      </View>
+    </View>
+  );
+
+  return (
+    <ImageBackground
+      source={require('@/assets/images/felt-background.jpg')}
+      style={styles.container}
+      imageStyle={styles.backgroundImage}
+      resizeMode="cover"
+    >
+      <Stack.Screen
+        options={{
+          title: 'Three X',
+          headerStyle: { backgroundColor: '#1a472a' },
+          headerTintColor: 'white',
+          headerRight: () => (
+            <TouchableOpacity onPress={handleResetStats} style={{ marginRight: 15 }}>
+              <Text style={{ color: 'white' }}>Reset</Text>
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      {!gameStarted && renderSettingsView()}
+      {gameStarted && renderGameView()}
+    </ImageBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    minHeight: Platform.OS === 'web' ? '100%' as any : undefined,
+  },
+  backgroundImage: {
+    width: '100%',
+    height: '100%',
+  },
+  settingsContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 20,
+  },
+  statsContainer: {
+    marginBottom: 30,
+    alignItems: 'center',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 20,
+  },
+  statsText: {
+    fontSize: 18,
+    color: 'rgba(255, 255, 255, 0.9)',
+  },
+  statsSubtext: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: 4,
+  },
+  sectionLabel: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: 'white',
+    marginBottom: 10,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 15,
+  },
+  optionButton: {
+    width: 60,
+    height: 50,
+    backgroundColor: 'rgba(128, 128, 128, 0.6)',
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  optionRowWrap: {
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  optionButtonWide: {
+    width: 90,
+  },
+  optionButtonGame: {
+    width: 110,
+  },
+  optionButtonSelected: {
+    backgroundColor: 'rgba(59, 130, 246, 0.8)',
+  },
+  optionButtonSelectedOrange: {
+    backgroundColor: 'rgba(249, 115, 22, 0.8)',
+  },
+  optionButtonText: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: 'white',
+  },
+  optionButtonGameText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: 'white',
+  },
+  fullGameContainer: {
+    flex: 1,
+    ...(isWeb ? { maxWidth: 600, alignSelf: 'center' as const, width: '100%' } : {}),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 10,
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: 'white',
+  },
+  statusCorrect: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#22c55e',
+  },
+  statusFailed: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#ef4444',
+  },
+  timerText: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: 'white',
+  },
+  statsLine: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 15,
+    paddingBottom: 5,
+  },
+  statsLineText: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  handsScroll: {
+    flex: 1,
+  },
+  handsContent: {
+    paddingTop: 20,
+    paddingBottom: 20,
+    alignItems: 'center',
+  },
+  handRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    marginBottom: 15,
+    width: '100%',
+  },
+  seatText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: 'white',
+    width: 24,
+  },
+  handCardsContainer: {
+    width: isWeb ? 230 : 165,
+    height: isWeb ? 110 : 85,
+    justifyContent: 'center',
+  },
+  handCards: {
+    position: 'relative',
+    height: isWeb ? 98 : 70,
+  },
+  handCardWrapper: {
+    position: 'absolute',
+  },
+  answerColumn: {
+    flex: 1,
+    alignItems: 'flex-end',
+    gap: 5,
+  },
+  amountInput: {
+    width: isWeb ? 90 : 75,
+    height: isWeb ? 40 : 35,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    color: 'white',
+    fontSize: 16,
+    textAlign: 'right',
+  },
+  handDescription: {
+    fontSize: isWeb ? 12 : 10,
+    color: 'white',
+    textAlign: 'right',
+  },
+  summaryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+    marginTop: 5,
+  },
+  actionButtonContainer: {
+    alignItems: 'center',
+    marginVertical: 10,
+  },
+  footer: {
+    paddingVertical: isWeb ? 15 : 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+    alignItems: 'center',
+    gap: isWeb ? 15 : 10,
+  },
+  communityCards: {
+    flexDirection: 'row',
+    gap: isWeb ? 12 : 8,
+  },
+});
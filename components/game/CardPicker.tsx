@@ -0,0 +1,68 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+
+import { Card, ALL_SUITS, JOKER_NOTATION, getRankDisplay, getSuitSymbol } from '@/lib/models/Card';
+import { sortCards } from '@/lib/poker/outs';
+
+const isWeb = Platform.OS === 'web';
+
+interface CardPickerProps {
+  cards: Card[];
+  getColor: (card: Card) => string;
+  onPress: (card: Card) => void;
+}
+
+// The joker's rank and suit are placeholders, so it is shown as "Jk"
+export function formatCard(card: Card): string {
+  return card.isJoker ? JOKER_NOTATION : `${getRankDisplay(card.rank)}${getSuitSymbol(card.suit)}`;
+}
+
+// Compact grid of small card buttons, one row per suit and a last row for the joker,
+// for naming specific cards
+export function CardPicker({ cards, getColor, onPress }: CardPickerProps) {
+  const sorted = sortCards(cards);
+  const renderButton = (card: Card) => (
+    <TouchableOpacity
+      key={card.id}
+      style={[styles.pickButton, { backgroundColor: getColor(card) }]}
+      onPress={() => onPress(card)}
+    >
+      <Text style={styles.pickButtonText}>{formatCard(card)}</Text>
+    </TouchableOpacity>
+  );
+  const jokers = sorted.filter((card) => card.isJoker);
+
+  return (
+    <View style={styles.picker}>
+      {ALL_SUITS.map((suit) => (
+        <View key={suit} style={styles.pickerRow}>
+          {sorted.filter((card) => card.suit === suit && !card.isJoker).map(renderButton)}
+        </View>
+      ))}
+      {jokers.length > 0 && <View style={styles.pickerRow}>{jokers.map(renderButton)}</View>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  picker: {
+    gap: 4,
+  },
+  pickerRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 3,
+  },
+  pickButton: {
+    width: isWeb ? 36 : 24,
+    height: isWeb ? 30 : 26,
+    borderRadius: 5,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  pickButtonText: {
+    fontSize: isWeb ? 13 : 10,
+    fontWeight: '600',
+    color: 'white',
+  },
+});
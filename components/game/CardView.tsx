@@ -74,17 +74,23 @@ const cardImages: Record<string, any> = {
   'cardSpadesA': require('@/assets/images/Cards/cardSpadesA.png'),
 };
 
+const cardBackImage = require('@/assets/images/Cards/cardBack_blue2.png');
+const jokerImage = require('@/assets/images/Cards/cardJoker.png');
+
 interface CardViewProps {
   card: Card;
   width?: number;
   height?: number;
   elevated?: boolean;
+  faceDown?: boolean;
+  // For the joker: the card it stands for, shown as a badge once it's known
+  jokerAs?: Card;
   onPress?: () => void;
   style?: ViewStyle;
 }
 
 function getCardImageKey(card: Card): string {
-  return `card${card.suit}${card.rank}`;
+  return card.isJoker ? 'cardJoker' : `card${card.suit}${card.rank}`;
 }
 
 function getSuitColor(suit: Suit): string {
@@ -96,11 +102,17 @@ export function CardView({
   width = 50,
   height = 70,
   elevated = false,
+  faceDown = false,
+  jokerAs,
   onPress,
   style,
 }: CardViewProps) {
   const imageKey = getCardImageKey(card);
-  const imageSource = cardImages[imageKey];
+  const imageSource = faceDown
+    ? cardBackImage
+    : card.isJoker
+      ? jokerImage
+      : cardImages[imageKey];
 
   const animatedStyle = useAnimatedStyle(() => {
     return {
@@ -143,6 +155,14 @@ export function CardView({
         activeOpacity={0.8}
       >
         {cardContent}
+        {card.isJoker && jokerAs && !faceDown && (
+          <View style={styles.jokerBadge}>
+            <Text style={[styles.jokerBadgeText, { color: getSuitColor(jokerAs.suit) }]}>
+              {jokerAs.rank}
+              {getSuitSymbol(jokerAs.suit)}
+            </Text>
+          </View>
+        )}
       </Wrapper>
     </Animated.View>
   );
@@ -172,4 +192,18 @@ const styles = StyleSheet.create({
   fallbackSuit: {
     fontSize: 14,
   },
+  jokerBadge: {
+    position: 'absolute',
+    bottom: 2,
+    right: 2,
+    backgroundColor: 'white',
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    paddingHorizontal: 3,
+  },
+  jokerBadgeText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
 });
@@ -0,0 +1,93 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+
+import { Card } from '@/lib/models/Card';
+import { MistakeExplanation } from '@/lib/poker/explanation';
+import { CardView } from './CardView';
+
+const isWeb = Platform.OS === 'web';
+const CARD_WIDTH = isWeb ? 36 : 28;
+const CARD_HEIGHT = isWeb ? 50 : 40;
+
+interface MistakeDetailsProps {
+  explanation: MistakeExplanation;
+  onDismiss: () => void;
+}
+
+function PlayedCards({ label, cards }: { label: string; cards: Card[] | null }) {
+  return (
+    <View style={styles.cardsRow}>
+      <Text style={styles.cardsLabel}>{label}</Text>
+      {cards && cards.length > 0 ? (
+        cards.map((card) => <CardView key={card.id} card={card} width={CARD_WIDTH} height={CARD_HEIGHT} />)
+      ) : (
+        <Text style={styles.noCards}>No low</Text>
+      )}
+    </View>
+  );
+}
+
+// Why a wrong Hi/Low pick lost: the deciding factor and the five cards each side played
+export function MistakeDetails({ explanation, onDismiss }: MistakeDetailsProps) {
+  const { half, handIndex, winnerIndex, handCards, winnerCards, summary } = explanation;
+  return (
+    <View style={styles.panel}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Why not hand {handIndex + 1} for {half === 'hi' ? 'high' : 'low'}?</Text>
+        <TouchableOpacity onPress={onDismiss}>
+          <Text style={styles.dismiss}>Dismiss</Text>
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.summary}>{summary}</Text>
+      <PlayedCards label={`Hand ${handIndex + 1}`} cards={handCards} />
+      {winnerIndex !== null && <PlayedCards label={`Hand ${winnerIndex + 1}`} cards={winnerCards} />}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    marginHorizontal: 15,
+    marginTop: -5,
+    marginBottom: 15,
+    padding: 10,
+    gap: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(239, 68, 68, 0.8)',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: isWeb ? 14 : 12,
+    fontWeight: 'bold',
+    color: 'white',
+  },
+  dismiss: {
+    fontSize: isWeb ? 13 : 11,
+    color: 'rgba(59, 130, 246, 1)',
+  },
+  summary: {
+    fontSize: isWeb ? 13 : 11,
+    color: 'rgba(255, 255, 255, 0.9)',
+  },
+  cardsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  cardsLabel: {
+    fontSize: isWeb ? 12 : 10,
+    fontWeight: '600',
+    color: 'white',
+    width: isWeb ? 56 : 46,
+  },
+  noCards: {
+    fontSize: isWeb ? 12 : 10,
+    color: 'rgba(255, 255, 255, 0.6)',
+  },
+});
@@ -0,0 +1,224 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, Platform } from 'react-native';
+
+import { Card, isSameCard } from '@/lib/models/Card';
+import { RandomSource, createSeededRandom } from '@/lib/models/Random';
+import { PlayerHand, GameVariant, HandAnswer } from '@/lib/poker/types';
+import { getUnseenCards } from '@/lib/poker/equity';
+import { HandOuts, findOuts, gradeOuts } from '@/lib/poker/outs';
+import { CardPicker, formatCard } from './CardPicker';
+import { CardView } from './CardView';
+import { GlassyButton, ButtonColors } from './GlassyButton';
+
+const isWeb = Platform.OS === 'web';
+const CARD_WIDTH = isWeb ? 44 : 34;
+const CARD_HEIGHT = isWeb ? 62 : 48;
+
+interface OutsQuizProps {
+  hands: PlayerHand[];
+  board: Card[];
+  variant: GameVariant;
+  lowQualifier: number | null;
+  // Picks the question, so the same deal always asks the same one
+  seed: number;
+  onClose: () => void;
+}
+
+interface OutsQuestion {
+  handIndex: number;
+  half: HandAnswer;
+}
+
+// Ask about a trailing hand, preferring one that has outs to find
+function pickQuestion(outs: HandOuts[], isHiLo: boolean, random: RandomSource): OutsQuestion | null {
+  const candidates: OutsQuestion[] = [];
+  outs.forEach((handOuts, handIndex) => {
+    if (!handOuts.leadsHigh) candidates.push({ handIndex, half: 'hi' });
+    if (isHiLo && !handOuts.leadsLow) candidates.push({ handIndex, half: 'low' });
+  });
+  const drawing = candidates.filter(({ handIndex, half }) =>
+    half === 'hi' ? outs[handIndex].highOuts.length > 0 : outs[handIndex].lowOuts.length > 0
+  );
+  const pool = drawing.length > 0 ? drawing : candidates;
+  return pool.length > 0 ? pool[Math.floor(random() * pool.length)] : null;
+}
+
+// "What are the outs?" for one trailing hand: the trainee taps every unseen card
+// that would make it the best high (or low) on the next street
+export function OutsQuiz({ hands, board, variant, lowQualifier, seed, onClose }: OutsQuizProps) {
+  const outs = useMemo(
+    () => findOuts(hands, board, variant, lowQualifier),
+    [hands, board, variant, lowQualifier]
+  );
+  const unseen = useMemo(() => getUnseenCards(hands, board, variant), [hands, board, variant]);
+
+  // Chosen once when the quiz opens, so re-renders never swap the question
+  const [question] = useState(() => pickQuestion(outs, variant.isHiLo, createSeededRandom(seed)));
+
+  const [picked, setPicked] = useState<Set<string>>(new Set());
+  const [checked, setChecked] = useState(false);
+
+  if (!question) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>What are the outs?</Text>
+        <Text style={styles.subtitle}>Every hand is tied for the lead - nobody is drawing</Text>
+        <GlassyButton
+          title="Done"
+          onPress={onClose}
+          baseColor={ButtonColors.blue}
+          width={120}
+          height={40}
+          fontSize={16}
+        />
+      </View>
+    );
+  }
+
+  const handOuts = outs[question.handIndex];
+  const answer = question.half === 'hi' ? handOuts.highOuts : handOuts.lowOuts;
+  const grade = gradeOuts(unseen.filter((card) => picked.has(card.id)), answer);
+
+  const togglePick = (card: Card) => {
+    setPicked((prev) => {
+      const next = new Set(prev);
+      if (next.has(card.id)) {
+        next.delete(card.id);
+      } else {
+        next.add(card.id);
+      }
+      return next;
+    });
+    setChecked(false);
+  };
+
+  const getPickColor = (card: Card): string => {
+    const isPicked = picked.has(card.id);
+    if (!checked) {
+      return isPicked ? 'rgba(59, 130, 246, 0.8)' : 'rgba(128, 128, 128, 0.6)';
+    }
+    if (grade.correct.includes(card)) return 'rgba(34, 197, 94, 0.8)';
+    if (grade.wrong.includes(card)) return 'rgba(239, 68, 68, 0.8)';
+    if (grade.missed.some((c) => isSameCard(c, card))) return 'rgba(249, 115, 22, 0.8)';
+    return 'rgba(128, 128, 128, 0.6)';
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>What are the outs?</Text>
+      <Text style={styles.subtitle}>
+        Cards that give hand {question.handIndex + 1} the best {question.half === 'hi' ? 'high' : 'low'}
+      </Text>
+
+      <View style={styles.handsColumn}>
+        {hands.map((hand, handIndex) => (
+          <View
+            key={hand.id}
+            style={[styles.handRow, handIndex === question.handIndex && styles.handRowSelected]}
+          >
+            <Text style={styles.handLabel}>{handIndex + 1}</Text>
+            {hand.cards.map((card) => (
+              <CardView key={card.id} card={card} width={CARD_WIDTH} height={CARD_HEIGHT} />
+            ))}
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.boardRow}>
+        {board.map((card) => (
+          <CardView key={card.id} card={card} width={CARD_WIDTH} height={CARD_HEIGHT} />
+        ))}
+      </View>
+
+      <CardPicker cards={unseen} getColor={getPickColor} onPress={togglePick} />
+
+      {checked && (
+        <View style={styles.results}>
+          <Text style={styles.resultText}>
+            {answer.length === 0
+              ? 'No outs - drawing dead'
+              : `${grade.correct.length} of ${answer.length} outs found`}
+            {grade.wrong.length > 0 && `, ${grade.wrong.length} wrong`}
+          </Text>
+          {question.half === 'low' && handOuts.counterfeits.length > 0 && (
+            <Text style={styles.resultText}>
+              Counterfeit: {handOuts.counterfeits.map(formatCard).join(' ')}
+            </Text>
+          )}
+        </View>
+      )}
+
+      <View style={styles.buttons}>
+        <GlassyButton
+          title="Check"
+          onPress={() => setChecked(true)}
+          baseColor={ButtonColors.green}
+          width={120}
+          height={40}
+          fontSize={16}
+        />
+        <GlassyButton
+          title="Done"
+          onPress={onClose}
+          baseColor={ButtonColors.blue}
+          width={120}
+          height={40}
+          fontSize={16}
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    gap: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: 'white',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  handsColumn: {
+    gap: 6,
+  },
+  handRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 3,
+    borderRadius: 8,
+  },
+  handRowSelected: {
+    backgroundColor: 'rgba(59, 130, 246, 0.4)',
+  },
+  handLabel: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: 'white',
+    width: 16,
+  },
+  boardRow: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  results: {
+    alignItems: 'center',
+    gap: 4,
+  },
+  resultText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 15,
+  },
+});
@@ -4,23 +4,116 @@ export type Rank = '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' |
 
 export const ALL_SUITS: Suit[] = ['Hearts', 'Diamonds', 'Clubs', 'Spades'];
 export const ALL_RANKS: Rank[] = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
+// Short-deck (6+) games play a 36-card deck without the deuces through fives
+export const SHORT_DECK_RANKS: Rank[] = ['6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
+
+// Suit ranking used to break ties (odd chips, stud bring-in): clubs, diamonds, hearts, spades
+export const SUIT_RANKING: Record<Suit, number> = {
+  Clubs: 0,
+  Diamonds: 1,
+  Hearts: 2,
+  Spades: 3,
+};
 
 export interface Card {
   id: string;
   suit: Suit;
   rank: Rank;
+  // Set on the joker. Its suit and rank are the card it stands for once a hand is
+  // evaluated, and a placeholder (the ace of spades) until then
+  isJoker?: boolean;
 }
 
+// Card ids only need to be unique, so they count up instead of drawing on randomness
+// that would make deals differ between runs
+let nextCardId = 0;
+
 export function createCard(suit: Suit, rank: Rank): Card {
   return {
-    id: `${suit}-${rank}-${Math.random().toString(36).substr(2, 9)}`,
+    id: `${suit}-${rank}-${nextCardId++}`,
     suit,
     rank,
   };
 }
 
+export function createJoker(): Card {
+  return {
+    id: `Joker-${nextCardId++}`,
+    suit: 'Spades',
+    rank: 'A',
+    isJoker: true,
+  };
+}
+
+// Same physical card: matching rank and suit, or both the joker (there is only one)
+export function isSameCard(a: Card, b: Card): boolean {
+  if (a.isJoker || b.isJoker) return !!a.isJoker && !!b.isJoker;
+  return a.rank === b.rank && a.suit === b.suit;
+}
+
 export function getCardImageName(card: Card): string {
-  return `card${card.suit}${card.rank}`;
+  return card.isJoker ? 'cardJoker' : `card${card.suit}${card.rank}`;
+}
+
+// Standard two-character notation: rank (T for ten) then lowercase suit, e.g. "Ah", "Td".
+// The joker is "Jk"
+const SUIT_NOTATION: Record<Suit, string> = {
+  Hearts: 'h',
+  Diamonds: 'd',
+  Clubs: 'c',
+  Spades: 's',
+};
+export const JOKER_NOTATION = 'Jk';
+
+function getRankNotation(rank: Rank): string {
+  return rank === '10' ? 'T' : rank;
+}
+
+function getCardNotation(card: Card): string {
+  return card.isJoker ? JOKER_NOTATION : `${getRankNotation(card.rank)}${SUIT_NOTATION[card.suit]}`;
+}
+
+// Parse one card like "As" or "td"; rank and suit letters may be either case
+export function parseCard(token: string): Card {
+  if (token.length !== 2) {
+    throw new Error(`Bad card "${token}": expected a rank and a suit, like "As" or "Td"`);
+  }
+  if (token.toLowerCase() === JOKER_NOTATION.toLowerCase()) {
+    return createJoker();
+  }
+  const rank = ALL_RANKS.find((candidate) => getRankNotation(candidate) === token[0].toUpperCase());
+  if (!rank) {
+    throw new Error(`Bad card "${token}": rank must be one of 2-9, T, J, Q, K or A`);
+  }
+  const suit = ALL_SUITS.find((candidate) => SUIT_NOTATION[candidate] === token[1].toLowerCase());
+  if (!suit) {
+    throw new Error(`Bad card "${token}": suit must be s, h, d or c`);
+  }
+  return createCard(suit, rank);
+}
+
+// Parse a list of cards, e.g. "AsKd Th" or "AhKd, Tc9s". Cards may run together or be
+// split by spaces or commas; a card named twice is an error
+export function parseCards(text: string): Card[] {
+  const cards: Card[] = [];
+  for (const group of text.split(/[\s,]+/).filter((chunk) => chunk.length > 0)) {
+    if (group.length % 2 !== 0) {
+      throw new Error(`Bad card in "${group}": every card is two characters, like "As" or "Td"`);
+    }
+    for (let i = 0; i < group.length; i += 2) {
+      const card = parseCard(group.slice(i, i + 2));
+      if (cards.some((c) => isSameCard(c, card))) {
+        throw new Error(`Duplicate card "${getCardNotation(card)}"`);
+      }
+      cards.push(card);
+    }
+  }
+  return cards;
+}
+
+// Cards in two-character notation, e.g. "As Kd Th"
+export function formatCards(cards: Card[], separator: string = ' '): string {
+  return cards.map(getCardNotation).join(separator);
 }
 
 export function getSuitSymbol(suit: Suit): string {
@@ -36,6 +129,25 @@ export function getRankDisplay(rank: Rank): string {
   return rank;
 }
 
+// Spoken name of a single card of the rank, as a dealer says it ("the deuce")
+export function getRankName(rank: Rank): string {
+  switch (rank) {
+    case '2': return 'deuce';
+    case '3': return 'trey';
+    case '4': return 'four';
+    case '5': return 'five';
+    case '6': return 'six';
+    case '7': return 'seven';
+    case '8': return 'eight';
+    case '9': return 'nine';
+    case '10': return 'ten';
+    case 'J': return 'jack';
+    case 'Q': return 'queen';
+    case 'K': return 'king';
+    case 'A': return 'ace';
+  }
+}
+
 export function rankToValue(rank: Rank): number {
   switch (rank) {
     case '2': return 2;
@@ -1,27 +1,47 @@
 
-import { Card, Suit, Rank, ALL_SUITS, ALL_RANKS, createCard } from './Card';
+import { Card, Suit, Rank, ALL_SUITS, ALL_RANKS, createCard, createJoker, isSameCard } from './Card';
+import { RandomFactory, RandomSource, createSeed, createSeededRandom } from './Random';
+
+export interface DeckOptions {
+  // Same seed, same shuffle; a fresh one is picked when left out
+  seed?: number;
+  createRandom?: RandomFactory;
+}
 
 export class Deck {
   private cards: Card[] = [];
+  readonly seed: number;
+  // The deck's generator, for any other random choices that belong to the same deal
+  readonly random: RandomSource;
 
-  constructor() {
+  // ranks lets short-deck games build a 36-card deck; jokers adds wild cards
+  constructor(
+    private ranks: Rank[] = ALL_RANKS,
+    private jokers: number = 0,
+    { seed = createSeed(), createRandom = createSeededRandom }: DeckOptions = {}
+  ) {
+    this.seed = seed;
+    this.random = createRandom(seed);
     this.reset();
   }
 
   reset(): void {
     this.cards = [];
     for (const suit of ALL_SUITS) {
-      for (const rank of ALL_RANKS) {
+      for (const rank of this.ranks) {
         this.cards.push(createCard(suit, rank));
       }
     }
+    for (let i = 0; i < this.jokers; i++) {
+      this.cards.push(createJoker());
+    }
     this.shuffle();
   }
 
   shuffle(): void {
     // Fisher-Yates shuffle
     for (let i = this.cards.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(this.random() * (i + 1));
       [this.cards[i], this.cards[j]] = [this.cards[j], this.cards[i]];
     }
   }
@@ -37,9 +57,7 @@ export class Deck {
 
   removeCard(card: Card): void {
     // Remove card by matching rank and suit (since IDs are unique per instance)
-    this.cards = this.cards.filter(
-      (c) => !(c.rank === card.rank && c.suit === card.suit)
-    );
+    this.cards = this.cards.filter((c) => !isSameCard(c, card));
   }
 
   get isEmpty(): boolean {
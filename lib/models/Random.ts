@@ -0,0 +1,29 @@
+// Seeded randomness - every deal draws from a generator built from a recorded seed,
+// so the same seed always deals the same cards
+
+// A float in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+// Builds a generator from a seed; Deck takes one to swap the algorithm
+export type RandomFactory = (seed: number) => RandomSource;
+
+// Small deterministic generator (mulberry32)
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// A fresh 32-bit seed for a new deal - the only place unseeded randomness comes in
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+export function randomInt(random: RandomSource, min: number, max: number): number {
+  return Math.floor(random() * (max - min + 1)) + min;
+}
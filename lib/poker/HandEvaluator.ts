@@ -1,7 +1,26 @@
 // Hand evaluation logic matching Swift implementation
 
-import { Card, Rank, Suit, rankToValue, rankToLowValue, getSuitSymbol, getRankDisplay } from '../models/Card';
-import { HandRank, HandEvaluation } from './types';
+import {
+  Card,
+  Rank,
+  Suit,
+  rankToValue,
+  rankToLowValue,
+  getSuitSymbol,
+  getRankDisplay,
+  getRankName,
+} from '../models/Card';
+import {
+  HandRank,
+  HandEvaluation,
+  HandDescription,
+  DescriptionVerbosity,
+  GameVariant,
+  LowballRule,
+  ShortDeckRules,
+} from './types';
+import { findBestHandWithTables, findBestHandWithJoker } from './LookupEvaluator';
+import { getHoleCardCounts } from './variants';
 
 // Helper function to generate combinations
 export function combinations<T>(items: T[], k: number): T[][] {
@@ -24,10 +43,11 @@ export function combinations<T>(items: T[], k: number): T[][] {
   return result;
 }
 
-// Check if a 5-card hand is a qualifying low (8 or better)
-export function isQualifyingLow(fiveCards: Card[]): boolean {
-  // All 5 cards must be 8 or lower
-  const lowCards = fiveCards.filter((card) => rankToLowValue(card.rank) <= 8);
+// Check if a 5-card hand is a qualifying low (8 or better unless told otherwise).
+// ANY_LOW accepts any five unpaired ranks
+export function isQualifyingLow(fiveCards: Card[], lowQualifier = 8): boolean {
+  // All 5 cards must be at or below the qualifier
+  const lowCards = fiveCards.filter((card) => rankToLowValue(card.rank) <= lowQualifier);
 
   if (lowCards.length !== 5) {
     return false;
@@ -38,23 +58,19 @@ export function isQualifyingLow(fiveCards: Card[]): boolean {
   return ranks.size === 5;
 }
 
+// Numeric strength of a low hand: card values from highest to lowest, four bits each.
+// Lower is better, so 5-4-3-2-A (0x54321) beats 6-4-3-2-A (0x64321)
+export function getLowHandStrength(cards: Card[]): number {
+  return cards
+    .map((card) => rankToLowValue(card.rank))
+    .sort((a, b) => b - a)
+    .reduce((strength, value) => strength * 16 + value, 0);
+}
+
 // Compare two low hands
 // Returns: -1 if hand1 is better (lower), 0 if equal, 1 if hand2 is better
 export function compareLowHands(hand1: Card[], hand2: Card[]): number {
-  // Get card values sorted from high to low
-  const values1 = hand1.map((card) => rankToLowValue(card.rank)).sort((a, b) => b - a);
-  const values2 = hand2.map((card) => rankToLowValue(card.rank)).sort((a, b) => b - a);
-
-  // Compare from highest card to lowest
-  for (let i = 0; i < 5; i++) {
-    if (values1[i] < values2[i]) {
-      return -1; // hand1 is better (lower)
-    } else if (values1[i] > values2[i]) {
-      return 1; // hand2 is better (lower)
-    }
-  }
-
-  return 0; // Equal hands
+  return Math.sign(getLowHandStrength(hand1) - getLowHandStrength(hand2));
 }
 
 // Check if two low hands are equal
@@ -62,8 +78,8 @@ export function areLowHandsEqual(hand1: Card[], hand2: Card[]): boolean {
   return compareLowHands(hand1, hand2) === 0;
 }
 
-// Check for straight
-function checkStraight(ranks: Rank[]): boolean {
+// Check for straight. The ace also plays low: A-2-3-4-5, or A-6-7-8-9 in short deck
+function checkStraight(ranks: Rank[], shortDeck: boolean = false): boolean {
   // Convert ranks to numerical values for comparison
   let values = ranks.map(rankToValue).sort((a, b) => a - b);
 
@@ -82,7 +98,7 @@ function checkStraight(ranks: Rank[]): boolean {
 
   // Check for wheel (A-2-3-4-5)
   // In this case, Ace (14) should be treated as 1
-  if (values.includes(14)) {
+  if (values.includes(14) && !shortDeck) {
     // Has Ace
     const wheelValues = values.map((v) => (v === 14 ? 1 : v)).sort((a, b) => a - b);
     isConsecutive = true;
@@ -97,6 +113,11 @@ function checkStraight(ranks: Rank[]): boolean {
     }
   }
 
+  // Short deck has no 2-5, so the ace sits just below the 6 instead
+  if (shortDeck && JSON.stringify(values) === JSON.stringify([6, 7, 8, 9, 14])) {
+    return true;
+  }
+
   return false;
 }
 
@@ -111,8 +132,9 @@ function isRoyalFlush(ranks: Rank[]): boolean {
   return true;
 }
 
-// Evaluate a 5-card hand
-export function evaluateHand(cards: Card[]): HandRank {
+// Evaluate a 5-card hand. The category is the same in short deck, only the
+// straights differ; getHandStrength applies short deck's category order
+export function evaluateHand(cards: Card[], shortDeck: boolean = false): HandRank {
   const ranks = cards.map((card) => card.rank);
   const suits = cards.map((card) => card.suit);
 
@@ -120,7 +142,7 @@ export function evaluateHand(cards: Card[]): HandRank {
   const isFlush = new Set(suits).size === 1;
 
   // Check for straight
-  const isStraight = checkStraight(ranks);
+  const isStraight = checkStraight(ranks, shortDeck);
 
   // Check for pairs, trips, etc.
   const rankCounts: Record<string, number> = {};
@@ -129,6 +151,11 @@ export function evaluateHand(cards: Card[]): HandRank {
   }
   const counts = Object.values(rankCounts).sort((a, b) => b - a);
 
+  // Five of a Kind: only with the joker as a fifth ace
+  if (counts[0] === 5) {
+    return HandRank.FiveOfAKind;
+  }
+
   // Royal Flush: A-K-Q-J-10 all same suit
   if (isFlush && isStraight && isRoyalFlush(ranks)) {
     return HandRank.RoyalFlush;
@@ -194,6 +221,11 @@ export function getStraightHighCard(cards: Card[]): Card {
     return cards.find((card) => card.rank === '5')!;
   }
 
+  // Short deck's low straight (A-6-7-8-9) is nine high
+  if (JSON.stringify(values) === JSON.stringify([6, 7, 8, 9, 14])) {
+    return cards.find((card) => card.rank === '9')!;
+  }
+
   // Otherwise, return the highest card
   return getHighCard(cards);
 }
@@ -224,201 +256,280 @@ export function getTwoPairRanks(cards: Card[]): { high: Rank; low: Rank } {
   return { high: pairs[0], low: pairs[1] };
 }
 
-// Compare two hands with the same rank
+// Each rank takes four bits; the category sits above the five tiebreak ranks
+const CATEGORY_MULTIPLIER = 16 ** 5;
+
+// Ranks in tiebreak order: bigger groups first, then higher ranks
+function getTiebreakValues(cards: Card[], rank: HandRank): number[] {
+  if (
+    rank === HandRank.Straight ||
+    rank === HandRank.StraightFlush ||
+    rank === HandRank.RoyalFlush
+  ) {
+    return [rankToValue(getStraightHighCard(cards).rank)];
+  }
+
+  const rankCounts = new Map<number, number>();
+  for (const card of cards) {
+    const value = rankToValue(card.rank);
+    rankCounts.set(value, (rankCounts.get(value) ?? 0) + 1);
+  }
+  return [...rankCounts.entries()]
+    .sort((a, b) => b[1] - a[1] || b[0] - a[0])
+    .map(([value]) => value);
+}
+
+// Short deck categories from weakest to strongest: a flush beats a full house,
+// and some rooms rank three of a kind above a straight
+function getShortDeckCategoryOrder(rules: ShortDeckRules): HandRank[] {
+  return [
+    HandRank.HighCard,
+    HandRank.OnePair,
+    HandRank.TwoPair,
+    ...(rules.tripsBeatStraight
+      ? [HandRank.Straight, HandRank.ThreeOfAKind]
+      : [HandRank.ThreeOfAKind, HandRank.Straight]),
+    HandRank.FullHouse,
+    HandRank.Flush,
+    HandRank.FourOfAKind,
+    HandRank.StraightFlush,
+    HandRank.RoyalFlush,
+  ];
+}
+
+// Single comparable strength for a 5-card high hand: category plus every kicker.
+// Higher is better, and equal strengths are exact ties
+export function getHandStrength(cards: Card[], shortDeck: ShortDeckRules | null = null): number {
+  const rank = evaluateHand(cards, shortDeck !== null);
+  const tiebreak = getTiebreakValues(cards, rank);
+  const category = shortDeck ? getShortDeckCategoryOrder(shortDeck).indexOf(rank) : rank;
+
+  let strength = 0;
+  for (let i = 0; i < 5; i++) {
+    strength = strength * 16 + (tiebreak[i] ?? 0);
+  }
+  return category * CATEGORY_MULTIPLIER + strength;
+}
+
+export function getHandRankFromStrength(
+  strength: number,
+  shortDeck: ShortDeckRules | null = null
+): HandRank {
+  const category = Math.floor(strength / CATEGORY_MULTIPLIER);
+  return shortDeck ? getShortDeckCategoryOrder(shortDeck)[category] : (category as HandRank);
+}
+
+// The five card values packed into a high or low strength, most significant first
+export function getStrengthValues(strength: number): number[] {
+  const values: number[] = [];
+  let rest = strength % CATEGORY_MULTIPLIER;
+  for (let i = 0; i < 5; i++) {
+    values.unshift(rest % 16);
+    rest = Math.floor(rest / 16);
+  }
+  return values;
+}
+
+// Compare two high hands
 // Returns: -1 if hand1 is better, 0 if equal, 1 if hand2 is better
-export function compareHighHands(hand1: Card[], hand2: Card[], rank: HandRank): number {
-  switch (rank) {
-    case HandRank.RoyalFlush:
-      return 0; // All royal flushes are equal
-
-    case HandRank.StraightFlush:
-    case HandRank.Straight: {
-      // Compare the high card of the straight
-      const high1 = getStraightHighCard(hand1);
-      const high2 = getStraightHighCard(hand2);
-      const val1 = rankToValue(high1.rank);
-      const val2 = rankToValue(high2.rank);
-      if (val1 > val2) return -1;
-      if (val1 < val2) return 1;
-      return 0;
-    }
+export function compareHighHands(hand1: Card[], hand2: Card[]): number {
+  return Math.sign(getHandStrength(hand2) - getHandStrength(hand1));
+}
 
-    case HandRank.FourOfAKind: {
-      // Compare the quad rank first
-      const quad1 = getRepeatedRank(hand1, 4);
-      const quad2 = getRepeatedRank(hand2, 4);
-      const val1 = rankToValue(quad1);
-      const val2 = rankToValue(quad2);
-      if (val1 > val2) return -1;
-      if (val1 < val2) return 1;
-
-      // If quads are equal, compare kicker
-      const kicker1 = Math.max(
-        ...hand1.filter((c) => c.rank !== quad1).map((c) => rankToValue(c.rank))
-      );
-      const kicker2 = Math.max(
-        ...hand2.filter((c) => c.rank !== quad2).map((c) => rankToValue(c.rank))
-      );
-      if (kicker1 > kicker2) return -1;
-      if (kicker1 < kicker2) return 1;
-      return 0;
-    }
+// Pair structure of a hand as a category: no pair, pair, two pair, trips, full house, quads
+function getPairCategory(groups: [number, number][]): HandRank {
+  const counts = groups.map(([, count]) => count);
+  if (counts[0] === 4) return HandRank.FourOfAKind;
+  if (counts[0] === 3) return counts[1] === 2 ? HandRank.FullHouse : HandRank.ThreeOfAKind;
+  if (counts[0] === 2) return counts[1] === 2 ? HandRank.TwoPair : HandRank.OnePair;
+  return HandRank.HighCard;
+}
 
-    case HandRank.FullHouse: {
-      // Compare the trip rank first
-      const trip1 = getRepeatedRank(hand1, 3);
-      const trip2 = getRepeatedRank(hand2, 3);
-      const val1 = rankToValue(trip1);
-      const val2 = rankToValue(trip2);
-      if (val1 > val2) return -1;
-      if (val1 < val2) return 1;
-
-      // If trips are equal, compare pair
-      const pair1 = getRepeatedRank(hand1, 2);
-      const pair2 = getRepeatedRank(hand2, 2);
-      const pairVal1 = rankToValue(pair1);
-      const pairVal2 = rankToValue(pair2);
-      if (pairVal1 > pairVal2) return -1;
-      if (pairVal1 < pairVal2) return 1;
-      return 0;
-    }
+// Card values grouped by rank: bigger groups first, then higher values
+function groupValues(values: number[]): [number, number][] {
+  const valueCounts = new Map<number, number>();
+  for (const value of values) {
+    valueCounts.set(value, (valueCounts.get(value) ?? 0) + 1);
+  }
+  return [...valueCounts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0]);
+}
 
-    case HandRank.Flush:
-    case HandRank.HighCard: {
-      // Compare all cards from highest to lowest
-      const values1 = hand1.map((c) => rankToValue(c.rank)).sort((a, b) => b - a);
-      const values2 = hand2.map((c) => rankToValue(c.rank)).sort((a, b) => b - a);
-      for (let i = 0; i < 5; i++) {
-        if (values1[i] > values2[i]) return -1;
-        if (values1[i] < values2[i]) return 1;
-      }
-      return 0;
-    }
+function packLowballStrength(category: HandRank, tiebreak: number[]): number {
+  let strength = 0;
+  for (let i = 0; i < 5; i++) {
+    strength = strength * 16 + (tiebreak[i] ?? 0);
+  }
+  return category * CATEGORY_MULTIPLIER + strength;
+}
 
-    case HandRank.ThreeOfAKind: {
-      // Compare the trip rank first
-      const trip1 = getRepeatedRank(hand1, 3);
-      const trip2 = getRepeatedRank(hand2, 3);
-      const val1 = rankToValue(trip1);
-      const val2 = rankToValue(trip2);
-      if (val1 > val2) return -1;
-      if (val1 < val2) return 1;
-
-      // If trips are equal, compare kickers
-      const kickers1 = hand1
-        .filter((c) => c.rank !== trip1)
-        .map((c) => rankToValue(c.rank))
-        .sort((a, b) => b - a);
-      const kickers2 = hand2
-        .filter((c) => c.rank !== trip2)
-        .map((c) => rankToValue(c.rank))
-        .sort((a, b) => b - a);
-      for (let i = 0; i < kickers1.length; i++) {
-        if (kickers1[i] > kickers2[i]) return -1;
-        if (kickers1[i] < kickers2[i]) return 1;
-      }
-      return 0;
-    }
+// Ace-to-five low with no qualifier (Razz). Straights and flushes don't count,
+// pairs do. Lower is better, so 5-4-3-2-A is the nuts and any pair loses to no pair
+export function getRazzStrength(cards: Card[]): number {
+  const groups = groupValues(cards.map((card) => rankToLowValue(card.rank)));
+  return packLowballStrength(
+    getPairCategory(groups),
+    groups.map(([value]) => value)
+  );
+}
 
-    case HandRank.TwoPair: {
-      // Compare high pair first
-      const pairs1 = getTwoPairRanks(hand1);
-      const pairs2 = getTwoPairRanks(hand2);
-
-      const highVal1 = rankToValue(pairs1.high);
-      const highVal2 = rankToValue(pairs2.high);
-      if (highVal1 > highVal2) return -1;
-      if (highVal1 < highVal2) return 1;
-
-      // If high pairs equal, compare low pair
-      const lowVal1 = rankToValue(pairs1.low);
-      const lowVal2 = rankToValue(pairs2.low);
-      if (lowVal1 > lowVal2) return -1;
-      if (lowVal1 < lowVal2) return 1;
-
-      // If both pairs equal, compare kicker
-      const kicker1 = Math.max(
-        ...hand1
-          .filter((c) => c.rank !== pairs1.high && c.rank !== pairs1.low)
-          .map((c) => rankToValue(c.rank))
-      );
-      const kicker2 = Math.max(
-        ...hand2
-          .filter((c) => c.rank !== pairs2.high && c.rank !== pairs2.low)
-          .map((c) => rankToValue(c.rank))
-      );
-      if (kicker1 > kicker2) return -1;
-      if (kicker1 < kicker2) return 1;
-      return 0;
-    }
+// Returns: -1 if hand1 is better (lower), 0 if equal, 1 if hand2 is better
+export function compareRazzHands(hand1: Card[], hand2: Card[]): number {
+  return Math.sign(getRazzStrength(hand1) - getRazzStrength(hand2));
+}
 
-    case HandRank.OnePair: {
-      // Compare pair rank first
-      const pair1 = getRepeatedRank(hand1, 2);
-      const pair2 = getRepeatedRank(hand2, 2);
-      const val1 = rankToValue(pair1);
-      const val2 = rankToValue(pair2);
-      if (val1 > val2) return -1;
-      if (val1 < val2) return 1;
-
-      // If pairs equal, compare kickers
-      const kickers1 = hand1
-        .filter((c) => c.rank !== pair1)
-        .map((c) => rankToValue(c.rank))
-        .sort((a, b) => b - a);
-      const kickers2 = hand2
-        .filter((c) => c.rank !== pair2)
-        .map((c) => rankToValue(c.rank))
-        .sort((a, b) => b - a);
-      for (let i = 0; i < kickers1.length; i++) {
-        if (kickers1[i] > kickers2[i]) return -1;
-        if (kickers1[i] < kickers2[i]) return 1;
+// Deuce-to-seven low: aces are high and straights and flushes count against the hand,
+// so 7-5-4-3-2 unsuited is the nuts and A-5-4-3-2 is just ace high. Lower is better
+export function getDeuceToSevenStrength(cards: Card[]): number {
+  const groups = groupValues(cards.map((card) => rankToValue(card.rank)));
+  const isFlush = cards.every((card) => card.suit === cards[0].suit);
+  const isStraight = groups.length === 5 && groups[0][0] - groups[4][0] === 4;
+  const tiebreak = groups.map(([value]) => value);
+
+  if (isStraight && isFlush) return packLowballStrength(HandRank.StraightFlush, tiebreak);
+  const pairCategory = getPairCategory(groups);
+  if (pairCategory === HandRank.FourOfAKind || pairCategory === HandRank.FullHouse) {
+    return packLowballStrength(pairCategory, tiebreak);
+  }
+  if (isFlush) return packLowballStrength(HandRank.Flush, tiebreak);
+  if (isStraight) return packLowballStrength(HandRank.Straight, tiebreak);
+  return packLowballStrength(pairCategory, tiebreak);
+}
+
+// Returns: -1 if hand1 is better (lower), 0 if equal, 1 if hand2 is better
+export function compareDeuceToSevenHands(hand1: Card[], hand2: Card[]): number {
+  return Math.sign(getDeuceToSevenStrength(hand1) - getDeuceToSevenStrength(hand2));
+}
+
+// Badugi strength of cards that already have distinct suits and ranks. More cards
+// always beat fewer, then the highest card decides, aces low. Lower is better
+export function getBadugiStrength(badugi: Card[]): number {
+  const values = badugi.map((card) => rankToLowValue(card.rank)).sort((a, b) => b - a);
+  let strength = 4 - badugi.length;
+  for (let i = 0; i < 4; i++) {
+    strength = strength * 16 + (values[i] ?? 0);
+  }
+  return strength;
+}
+
+// Best badugi among a hand's cards: the largest set of different suits and
+// ranks, lowest cards first on ties. Every non-empty hand makes at least a one-card badugi
+export function findBestBadugi(cards: Card[]): Card[] {
+  let best: Card[] = [];
+  let bestStrength = Infinity;
+
+  for (let size = Math.min(4, cards.length); size >= 1 && best.length === 0; size--) {
+    for (const subset of combinations(cards, size)) {
+      const suits = new Set(subset.map((card) => card.suit));
+      const ranks = new Set(subset.map((card) => card.rank));
+      if (suits.size !== size || ranks.size !== size) continue;
+
+      const strength = getBadugiStrength(subset);
+      if (strength < bestStrength) {
+        best = subset;
+        bestStrength = strength;
       }
-      return 0;
     }
+  }
+  return best;
+}
 
-    default:
-      return 0;
+// Returns: -1 if hand1 is better, 0 if equal, 1 if hand2 is better
+export function compareBadugiHands(hand1: Card[], hand2: Card[]): number {
+  return Math.sign(
+    getBadugiStrength(findBestBadugi(hand1)) - getBadugiStrength(findBestBadugi(hand2))
+  );
+}
+
+export function getLowballStrength(cards: Card[], rule: LowballRule): number {
+  switch (rule) {
+    case 'razz': return getRazzStrength(cards);
+    case 'deuceToSeven': return getDeuceToSevenStrength(cards);
+    case 'badugi': return getBadugiStrength(findBestBadugi(cards));
   }
 }
 
-// Find the best hand from hole cards and community cards
+// Category of a Razz or 2-7 hand, e.g. OnePair for a paired Razz hand. Badugi strengths
+// count cards rather than categories, so badugi hands have none
+export function getLowballCategory(cards: Card[], rule: Exclude<LowballRule, 'badugi'>): HandRank {
+  return getHandRankFromStrength(getLowballStrength(cards, rule));
+}
+
+// Best (lowest) five-card lowball hand from a player's cards
+export function findBestLowballHand(
+  cards: Card[],
+  rule: LowballRule
+): { hand: Card[]; strength: number } {
+  if (rule === 'badugi') {
+    const badugi = findBestBadugi(cards);
+    return { hand: badugi, strength: getBadugiStrength(badugi) };
+  }
+
+  let best: { hand: Card[]; strength: number } = { hand: [], strength: Infinity };
+  for (const fiveCardHand of combinations(cards, Math.min(5, cards.length))) {
+    const strength = getLowballStrength(fiveCardHand, rule);
+    if (strength < best.strength) {
+      best = { hand: fiveCardHand, strength };
+    }
+  }
+  return best;
+}
+
+// Lowball games have no high half; their best hand fills the low fields
+function withLowballHand(evaluation: HandEvaluation, cards: Card[], rule: LowballRule): HandEvaluation {
+  const lowball = findBestLowballHand(cards, rule);
+  return { ...evaluation, bestLowHand: lowball.hand, bestLowStrength: lowball.strength };
+}
+
+// Find the best hand from hole cards and community cards under the variant's rules.
+// lowQualifier overrides the variant's for games played 9-or-better or any low
 export function findBestHand(
   holeCards: Card[],
   communityCards: Card[],
-  cardCount: number
+  variant: GameVariant,
+  lowQualifier: number | null = variant.lowQualifier
 ): HandEvaluation {
-  let bestHighRank = HandRank.HighCard;
-  let bestHighHand: Card[] = [];
-  let bestLowHand: Card[] | null = null;
-
-  // Determine combination rules based on selected card count
-  let allCombinations: [Card[], Card[]][] = [];
+  // The lookup tables only know the full-deck ranking
+  if (variant.shortDeck) {
+    return findBestHandReference(holeCards, communityCards, variant, lowQualifier);
+  }
 
-  if (cardCount === 2) {
-    // 2-card game: Can use EITHER 1 or 2 hole cards
-    // Try 1 hole card + 4 community cards
-    const oneCardCombos = combinations(holeCards, 1);
-    const fourBoardCombos = combinations(communityCards, 4);
-    for (const holeCombo of oneCardCombos) {
-      for (const boardCombo of fourBoardCombos) {
-        allCombinations.push([holeCombo, boardCombo]);
-      }
-    }
+  const qualifier = variant.isHiLo ? lowQualifier : null;
+  const holdsJoker = variant.joker !== null && [...holeCards, ...communityCards].some((c) => c.isJoker);
+  const evaluation = holdsJoker
+    ? findBestHandWithJoker(
+        holeCards,
+        communityCards,
+        getHoleCardCounts(variant),
+        qualifier,
+        variant.joker!
+      )
+    : findBestHandWithTables(holeCards, communityCards, getHoleCardCounts(variant), qualifier);
+  return variant.lowball
+    ? withLowballHand(evaluation, [...holeCards, ...communityCards], variant.lowball)
+    : evaluation;
+}
 
-    // Try 2 hole cards + 3 community cards
-    const twoCardCombos = combinations(holeCards, 2);
-    const threeBoardCombos = combinations(communityCards, 3);
-    for (const holeCombo of twoCardCombos) {
-      for (const boardCombo of threeBoardCombos) {
-        allCombinations.push([holeCombo, boardCombo]);
-      }
-    }
-  } else {
-    // 4 or 5-card game (Omaha): Use exactly 2 hole cards + 3 community cards
-    const holeCardCombos = combinations(holeCards, 2);
-    const boardCombos = combinations(communityCards, 3);
-    for (const holeCombo of holeCardCombos) {
+// Straightforward combination search over getHandStrength. Kept as the reference
+// the lookup-table evaluator is checked against (see scripts/benchmark-evaluator.ts),
+// and the evaluator for short deck, which the tables don't cover
+export function findBestHandReference(
+  holeCards: Card[],
+  communityCards: Card[],
+  variant: GameVariant,
+  lowQualifier: number | null = variant.lowQualifier
+): HandEvaluation {
+  let bestHighStrength = -1;
+  let bestHighHand: Card[] = [];
+  let bestLowStrength: number | null = null;
+  let bestLowHand: Card[] | null = null;
+  const qualifier = variant.isHiLo ? lowQualifier : null;
+
+  // Every allowed number of hole cards, with the board filling out five cards
+  const allCombinations: [Card[], Card[]][] = [];
+  for (const holeCount of getHoleCardCounts(variant)) {
+    const holeCombos = combinations(holeCards, holeCount);
+    const boardCombos = combinations(communityCards, 5 - holeCount);
+    for (const holeCombo of holeCombos) {
       for (const boardCombo of boardCombos) {
         allCombinations.push([holeCombo, boardCombo]);
       }
@@ -429,42 +540,61 @@ export function findBestHand(
   for (const [holeCombo, boardCombo] of allCombinations) {
     const fiveCardHand = [...holeCombo, ...boardCombo];
 
-    // Evaluate high hand
-    const highRank = evaluateHand(fiveCardHand);
-
-    // Initialize bestHighHand with the first combination if it's still empty
-    if (bestHighHand.length === 0) {
-      bestHighHand = fiveCardHand;
-      bestHighRank = highRank;
-    } else if (highRank > bestHighRank) {
-      bestHighRank = highRank;
+    // Evaluate high hand - one numeric comparison covers category and kickers
+    const highStrength = getHandStrength(fiveCardHand, variant.shortDeck);
+    if (highStrength > bestHighStrength) {
+      bestHighStrength = highStrength;
       bestHighHand = fiveCardHand;
-    } else if (highRank === bestHighRank) {
-      // Same rank - compare kickers to find the better hand
-      const comparison = compareHighHands(fiveCardHand, bestHighHand, highRank);
-      if (comparison < 0) {
-        // This hand is better
-        bestHighHand = fiveCardHand;
+    }
+
+    // Check if this combination makes a qualifying low - lower is better
+    if (qualifier !== null && isQualifyingLow(fiveCardHand, qualifier)) {
+      const lowStrength = getLowHandStrength(fiveCardHand);
+      if (bestLowStrength === null || lowStrength < bestLowStrength) {
+        bestLowStrength = lowStrength;
+        bestLowHand = fiveCardHand;
       }
     }
+  }
 
-    // Check if this combination makes a qualifying low
-    if (isQualifyingLow(fiveCardHand)) {
-      if (bestLowHand === null) {
+  const evaluation: HandEvaluation = {
+    bestHighHand,
+    bestHighRank: getHandRankFromStrength(bestHighStrength, variant.shortDeck),
+    bestHighStrength,
+    bestLowHand,
+    bestLowStrength,
+  };
+  return variant.lowball
+    ? withLowballHand(evaluation, [...holeCards, ...communityCards], variant.lowball)
+    : evaluation;
+}
+
+// Best five of a player's own cards (stud games have no board)
+export function findBestStudHand(cards: Card[], lowQualifier: number | null): HandEvaluation {
+  let bestHighHand: Card[] = [];
+  let bestHighStrength = -1;
+  let bestLowHand: Card[] | null = null;
+
+  for (const fiveCardHand of combinations(cards, 5)) {
+    const highStrength = getHandStrength(fiveCardHand);
+    if (highStrength > bestHighStrength) {
+      bestHighStrength = highStrength;
+      bestHighHand = fiveCardHand;
+    }
+
+    if (lowQualifier !== null && isQualifyingLow(fiveCardHand, lowQualifier)) {
+      if (bestLowHand === null || compareLowHands(fiveCardHand, bestLowHand) < 0) {
         bestLowHand = fiveCardHand;
-      } else {
-        // Compare lows - lower is better
-        if (compareLowHands(fiveCardHand, bestLowHand) < 0) {
-          bestLowHand = fiveCardHand;
-        }
       }
     }
   }
 
   return {
     bestHighHand,
-    bestHighRank,
+    bestHighRank: evaluateHand(bestHighHand),
+    bestHighStrength,
     bestLowHand,
+    bestLowStrength: bestLowHand ? getLowHandStrength(bestLowHand) : null,
   };
 }
 
@@ -472,73 +602,156 @@ export function findBestHand(
 export function getHandDescription(
   hand: Card[],
   communityCards: Card[],
-  cardCount: number
+  variant: GameVariant,
+  verbosity: DescriptionVerbosity = 'short'
+): string {
+  return describeHighHand(findBestHand(hand, communityCards, variant), verbosity);
+}
+
+// Describe an evaluation's best high hand, e.g. "Full House-K/7"
+export function describeHighHand(
+  evaluation: HandEvaluation,
+  verbosity: DescriptionVerbosity = 'short'
 ): string {
-  const evaluation = findBestHand(hand, communityCards, cardCount);
-  const bestHand = evaluation.bestHighHand;
-  const rank = evaluation.bestHighRank;
+  return formatHandDescription(
+    buildHandDescription(evaluation.bestHighHand, evaluation.bestHighRank),
+    verbosity
+  );
+}
 
-  switch (rank) {
-    case HandRank.RoyalFlush:
-      return 'Royal Flush';
+// Ranks that make each category, before the kickers
+const PRIMARY_RANK_COUNT: Record<HandRank, number> = {
+  [HandRank.HighCard]: 1,
+  [HandRank.OnePair]: 1,
+  [HandRank.TwoPair]: 2,
+  [HandRank.ThreeOfAKind]: 1,
+  [HandRank.Straight]: 1,
+  [HandRank.Flush]: 1,
+  [HandRank.FullHouse]: 2,
+  [HandRank.FourOfAKind]: 1,
+  [HandRank.StraightFlush]: 1,
+  [HandRank.RoyalFlush]: 1,
+  [HandRank.FiveOfAKind]: 1,
+};
+
+function isStraightCategory(rank: HandRank): boolean {
+  return rank === HandRank.Straight || rank === HandRank.StraightFlush || rank === HandRank.RoyalFlush;
+}
 
-    case HandRank.StraightFlush: {
-      const highCard = getStraightHighCard(bestHand);
-      return `Straight Flush-${getRankDisplay(highCard.rank)}`;
-    }
+// Break a five-card hand into its category, the ranks that make it and its kickers
+export function buildHandDescription(bestHand: Card[], category: HandRank): HandDescription {
+  if (isStraightCategory(category)) {
+    // Top card first; a wheel's ace plays low, so it goes last
+    const top = getStraightHighCard(bestHand);
+    const cards = [...bestHand].sort((a, b) => rankToValue(b.rank) - rankToValue(a.rank));
+    const ordered = top.rank === cards[0].rank ? cards : [...cards.slice(1), cards[0]];
+    return { category, primaryRanks: [top.rank], kickers: [], cards: ordered };
+  }
 
-    case HandRank.FourOfAKind: {
-      const quadRank = getRepeatedRank(bestHand, 4);
-      return `Four of a Kind-${getRankDisplay(quadRank)}`;
-    }
+  // Bigger groups first, then higher ranks: trips before the pair, pairs before kickers
+  const counts = new Map<Rank, number>();
+  for (const card of bestHand) {
+    counts.set(card.rank, (counts.get(card.rank) ?? 0) + 1);
+  }
+  const ranks = [...counts.keys()].sort(
+    (a, b) => counts.get(b)! - counts.get(a)! || rankToValue(b) - rankToValue(a)
+  );
+  const cards = [...bestHand].sort((a, b) => ranks.indexOf(a.rank) - ranks.indexOf(b.rank));
+  const primaryCount = PRIMARY_RANK_COUNT[category];
+  return {
+    category,
+    primaryRanks: ranks.slice(0, primaryCount),
+    kickers: ranks.slice(primaryCount),
+    cards,
+  };
+}
 
-    case HandRank.FullHouse: {
-      const tripRank = getRepeatedRank(bestHand, 3);
-      const pairRank = getRepeatedRank(bestHand, 2);
-      return `Full House-${getRankDisplay(tripRank)}/${getRankDisplay(pairRank)}`;
-    }
+function pluralRankName(rank: Rank): string {
+  const name = getRankName(rank);
+  return name === 'six' ? 'sixes' : `${name}s`;
+}
 
-    case HandRank.Flush: {
-      const highCard = getHighCard(bestHand);
-      const suit = getSuitSymbol(highCard.suit);
-      return `Flush-${getRankDisplay(highCard.rank)}${suit}`;
-    }
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
 
-    case HandRank.Straight: {
-      const highCard = getStraightHighCard(bestHand);
-      return `Straight-${getRankDisplay(highCard.rank)}`;
-    }
+// Compact label, e.g. "Pair-K" or "Two Pair-K/7-A"
+function formatShortDescription({ category, primaryRanks, kickers, cards }: HandDescription): string {
+  const [primary, secondary] = primaryRanks.map(getRankDisplay);
+  switch (category) {
+    case HandRank.FiveOfAKind: return `Five of a Kind-${primary}`;
+    case HandRank.RoyalFlush: return 'Royal Flush';
+    case HandRank.StraightFlush: return `Straight Flush-${primary}`;
+    case HandRank.FourOfAKind: return `Four of a Kind-${primary}`;
+    case HandRank.FullHouse: return `Full House-${primary}/${secondary}`;
+    case HandRank.Flush: return `Flush-${primary}${getSuitSymbol(cards[0].suit)}`;
+    case HandRank.Straight: return `Straight-${primary}`;
+    case HandRank.ThreeOfAKind: return `Three of a Kind-${primary}/${getRankDisplay(kickers[0])}`;
+    case HandRank.TwoPair: return `Two Pair-${primary}/${secondary}-${getRankDisplay(kickers[0])}`;
+    case HandRank.OnePair: return `Pair-${primary}`;
+    case HandRank.HighCard: return `High Card-${primary}`;
+  }
+}
 
-    case HandRank.ThreeOfAKind: {
-      const tripRank = getRepeatedRank(bestHand, 3);
-      const kickers = bestHand
-        .filter((c) => c.rank !== tripRank)
-        .map((c) => rankToValue(c.rank))
-        .sort((a, b) => b - a);
-      const highKicker = bestHand.find((c) => rankToValue(c.rank) === kickers[0])!;
-      return `Three of a Kind-${getRankDisplay(tripRank)}/${getRankDisplay(highKicker.rank)}`;
-    }
+// The compact label with every rank that breaks a tie, e.g. "Pair-K/A-Q-9" or "Flush-K-J-8-6-3♥"
+function formatFullDescription({ category, primaryRanks, kickers, cards }: HandDescription): string {
+  const primary = primaryRanks.map(getRankDisplay).join('/');
+  const kickerList = kickers.map(getRankDisplay).join('-');
+  const withKickers = kickerList ? `${primary}/${kickerList}` : primary;
+  const allRanks = [...primaryRanks, ...kickers].map(getRankDisplay).join('-');
+  switch (category) {
+    case HandRank.FiveOfAKind: return `Five of a Kind-${primary}`;
+    case HandRank.RoyalFlush: return `Royal Flush${getSuitSymbol(cards[0].suit)}`;
+    case HandRank.StraightFlush: return `Straight Flush-${primary}${getSuitSymbol(cards[0].suit)}`;
+    case HandRank.FourOfAKind: return `Four of a Kind-${withKickers}`;
+    case HandRank.FullHouse: return `Full House-${primary}`;
+    case HandRank.Flush: return `Flush-${allRanks}${getSuitSymbol(cards[0].suit)}`;
+    case HandRank.Straight: return `Straight-${primary}`;
+    case HandRank.ThreeOfAKind: return `Three of a Kind-${withKickers}`;
+    case HandRank.TwoPair: return `Two Pair-${primary}-${kickerList}`;
+    case HandRank.OnePair: return `Pair-${withKickers}`;
+    case HandRank.HighCard: return `High Card-${allRanks}`;
+  }
+}
 
-    case HandRank.TwoPair: {
-      const pairs = getTwoPairRanks(bestHand);
-      const kicker = Math.max(
-        ...bestHand
-          .filter((c) => c.rank !== pairs.high && c.rank !== pairs.low)
-          .map((c) => rankToValue(c.rank))
+// As a dealer announces it at showdown, e.g. "Kings full of sevens" or
+// "Pair of kings, ace-queen-nine". Kickers are left off when the description has none
+function formatDealerDescription({ category, primaryRanks, kickers }: HandDescription): string {
+  const [primary, secondary] = primaryRanks;
+  const kickerNames = kickers.map(getRankName).join('-');
+  const withKickers = (text: string, suffix = '') =>
+    kickers.length > 0 ? `${text}, ${kickerNames}${suffix}` : text;
+  switch (category) {
+    case HandRank.FiveOfAKind: return `Five ${pluralRankName(primary)}`;
+    case HandRank.RoyalFlush: return 'Royal flush';
+    case HandRank.StraightFlush: return `Straight flush, ${getRankName(primary)} high`;
+    case HandRank.FourOfAKind: return withKickers(`Four ${pluralRankName(primary)}`, ' kicker');
+    case HandRank.FullHouse:
+      return capitalize(`${pluralRankName(primary)} full of ${pluralRankName(secondary)}`);
+    case HandRank.Flush:
+      return kickers.length > 0
+        ? `Flush, ${[primary, ...kickers].map(getRankName).join('-')}`
+        : `Flush, ${getRankName(primary)} high`;
+    case HandRank.Straight: return `Straight, ${getRankName(primary)} high`;
+    case HandRank.ThreeOfAKind: return withKickers(`Three ${pluralRankName(primary)}`);
+    case HandRank.TwoPair:
+      return withKickers(
+        `Two pair, ${pluralRankName(primary)} and ${pluralRankName(secondary)}`,
+        ' kicker'
       );
-      const kickerCard = bestHand.find((c) => rankToValue(c.rank) === kicker)!;
-      return `Two Pair-${getRankDisplay(pairs.high)}/${getRankDisplay(pairs.low)}-${getRankDisplay(kickerCard.rank)}`;
-    }
-
-    case HandRank.OnePair: {
-      const pairRank = getRepeatedRank(bestHand, 2);
-      return `Pair-${getRankDisplay(pairRank)}`;
-    }
+    case HandRank.OnePair: return withKickers(`Pair of ${pluralRankName(primary)}`);
+    case HandRank.HighCard: return withKickers(capitalize(`${getRankName(primary)} high`));
+  }
+}
 
-    case HandRank.HighCard: {
-      const highCard = getHighCard(bestHand);
-      return `High Card-${getRankDisplay(highCard.rank)}`;
-    }
+export function formatHandDescription(
+  description: HandDescription,
+  verbosity: DescriptionVerbosity = 'short'
+): string {
+  switch (verbosity) {
+    case 'short': return formatShortDescription(description);
+    case 'dealer': return formatDealerDescription(description);
+    case 'full': return formatFullDescription(description);
   }
 }
 
@@ -546,10 +759,41 @@ export function getHandDescription(
 export function getLowHandDescription(
   hand: Card[],
   communityCards: Card[],
-  cardCount: number
+  variant: GameVariant,
+  lowQualifier: number | null = variant.lowQualifier
 ): string {
-  const evaluation = findBestHand(hand, communityCards, cardCount);
+  const evaluation = findBestHand(hand, communityCards, variant, lowQualifier);
+  if (variant.lowball && evaluation.bestLowHand) {
+    return describeLowballHand(evaluation.bestLowHand, variant.lowball);
+  }
+  return describeLowHand(evaluation);
+}
+
+// Describe a lowball hand, e.g. "8-6-5-4-A" for Razz, "7-5-4-3-2" or "Pair-9" for 2-7,
+// "3-card 7-4-A" for a badugi short of four cards
+export function describeLowballHand(cards: Card[], rule: LowballRule): string {
+  if (rule === 'badugi') {
+    const ranks = [...cards]
+      .sort((a, b) => rankToLowValue(b.rank) - rankToLowValue(a.rank))
+      .map((card) => getRankDisplay(card.rank))
+      .join('-');
+    return cards.length === 4 ? ranks : `${cards.length}-card ${ranks}`;
+  }
+
+  const category = getLowballCategory(cards, rule);
+  if (category !== HandRank.HighCard) {
+    return formatHandDescription(buildHandDescription(cards, category));
+  }
+
+  const toValue = rule === 'razz' ? rankToLowValue : rankToValue;
+  return [...cards]
+    .sort((a, b) => toValue(b.rank) - toValue(a.rank))
+    .map((card) => getRankDisplay(card.rank))
+    .join('-');
+}
 
+// Describe an evaluation's best low hand, e.g. "87542"
+export function describeLowHand(evaluation: HandEvaluation): string {
   if (!evaluation.bestLowHand) {
     return 'No low';
   }
@@ -559,6 +803,6 @@ export function getLowHandDescription(
     .map((card) => rankToLowValue(card.rank))
     .sort((a, b) => b - a);
 
-  // Convert to string (8-7-6-5-4 format)
-  return values.map(String).join('');
+  // Convert to string (8-7-6-5-4 format), ten and up as letters for any-low games
+  return values.map((value) => (value >= 10 ? 'TJQK'[value - 10] : String(value))).join('');
 }
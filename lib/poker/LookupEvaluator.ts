@@ -0,0 +1,512 @@
+// Lookup-table hand evaluator (Cactus Kev style)
+//
+// Cards are encoded as small integers and every 5-card hand is resolved with
+// at most one table or map lookup:
+//   - flushes by the 13-bit mask of their ranks
+//   - five distinct ranks (straights, high card) by the same mask
+//   - everything with a paired rank by the product of its rank primes
+// 6- and 7-card hands skip the 5-card combinations entirely: the best non-flush
+// hand is looked up by the prime product of all the ranks, the best flush by
+// the rank mask of the flush suit.
+// Strengths use the same scale as getHandStrength, so the two are interchangeable.
+
+import { Card, Rank, Suit, ALL_RANKS, ALL_SUITS } from '../models/Card';
+import { HandRank, HandEvaluation, JokerRule } from './types';
+
+const RANK_PRIMES = [2, 3, 5, 7, 11, 13, 17, 19, 23, 29, 31, 37, 41];
+const CATEGORY_MULTIPLIER = 16 ** 5;
+// A-2-3-4-5 as a rank mask (ace is the top bit)
+const WHEEL_MASK = 0b1000000001111;
+// Five aces, the one five of a kind the joker can make
+const FIVE_ACES_PRODUCT = 41 ** 5;
+
+// Card code = rank index * 4 + suit index, so 0 is the 2 of the first suit and 51 the last ace
+const CARD_PRIME = new Int32Array(52);
+const CARD_RANK_BIT = new Int32Array(52);
+const CARD_LOW_BIT = new Int32Array(52);
+const CARD_SUIT = new Int8Array(52);
+
+for (let code = 0; code < 52; code++) {
+  const rankIndex = code >> 2;
+  CARD_PRIME[code] = RANK_PRIMES[rankIndex];
+  CARD_RANK_BIT[code] = 1 << rankIndex;
+  // For lows the ace is bit 0 and the deuce bit 1
+  CARD_LOW_BIT[code] = rankIndex === 12 ? 1 : 1 << (rankIndex + 1);
+  CARD_SUIT[code] = code & 3;
+}
+
+const RANK_INDEX: Record<Rank, number> = Object.fromEntries(
+  ALL_RANKS.map((rank, i) => [rank, i])
+) as Record<Rank, number>;
+const SUIT_INDEX: Record<Suit, number> = Object.fromEntries(
+  ALL_SUITS.map((suit, i) => [suit, i])
+) as Record<Suit, number>;
+
+let flushTable: Int32Array | null = null;
+let uniqueTable: Int32Array | null = null;
+let pairedTable: Map<number, number> | null = null;
+let lowTable: Int32Array | null = null;
+let bestFlushTable: Int32Array | null = null;
+let bestRanksTable: Map<number, number> | null = null;
+const BIT_COUNT = new Int8Array(8192);
+for (let mask = 1; mask < 8192; mask++) {
+  BIT_COUNT[mask] = BIT_COUNT[mask >> 1] + (mask & 1);
+}
+
+export function encodeCard(card: Card): number {
+  return RANK_INDEX[card.rank] * 4 + SUIT_INDEX[card.suit];
+}
+
+// Highest rank value (2-14) of a straight mask, 0 if the ranks are not a straight
+function getStraightHigh(mask: number): number {
+  if (mask === WHEEL_MASK) return 5;
+  const lowest = mask & -mask;
+  return mask === lowest * 0b11111 ? 31 - Math.clz32(mask) + 2 : 0;
+}
+
+function packTiebreak(values: number[]): number {
+  let packed = 0;
+  for (let i = 0; i < 5; i++) {
+    packed = packed * 16 + (values[i] ?? 0);
+  }
+  return packed;
+}
+
+function getMaskValuesDescending(mask: number): number[] {
+  const values: number[] = [];
+  for (let rankIndex = 12; rankIndex >= 0; rankIndex--) {
+    if (mask & (1 << rankIndex)) values.push(rankIndex + 2);
+  }
+  return values;
+}
+
+function buildDistinctRankTables(): void {
+  flushTable = new Int32Array(8192);
+  uniqueTable = new Int32Array(8192);
+
+  for (let mask = 0; mask < 8192; mask++) {
+    if (BIT_COUNT[mask] !== 5) continue;
+
+    const straightHigh = getStraightHigh(mask);
+    if (straightHigh) {
+      const tiebreak = packTiebreak([straightHigh]);
+      const flushRank = straightHigh === 14 ? HandRank.RoyalFlush : HandRank.StraightFlush;
+      flushTable[mask] = flushRank * CATEGORY_MULTIPLIER + tiebreak;
+      uniqueTable[mask] = HandRank.Straight * CATEGORY_MULTIPLIER + tiebreak;
+    } else {
+      const tiebreak = packTiebreak(getMaskValuesDescending(mask));
+      flushTable[mask] = HandRank.Flush * CATEGORY_MULTIPLIER + tiebreak;
+      uniqueTable[mask] = HandRank.HighCard * CATEGORY_MULTIPLIER + tiebreak;
+    }
+  }
+}
+
+function getPairedRank(sortedCounts: number[]): HandRank {
+  switch (sortedCounts.join('')) {
+    case '41': return HandRank.FourOfAKind;
+    case '32': return HandRank.FullHouse;
+    case '311': return HandRank.ThreeOfAKind;
+    case '221': return HandRank.TwoPair;
+    default: return HandRank.OnePair;
+  }
+}
+
+function buildPairedTable(): void {
+  pairedTable = new Map();
+  const counts = new Array<number>(13).fill(0);
+
+  // Walk every multiset of five ranks with at most four of each
+  const visit = (rankIndex: number, remaining: number) => {
+    if (rankIndex === 13) {
+      if (remaining !== 0) return;
+      const groups: [number, number][] = [];
+      let product = 1;
+      for (let i = 0; i < 13; i++) {
+        if (counts[i] === 0) continue;
+        groups.push([counts[i], i + 2]);
+        product *= RANK_PRIMES[i] ** counts[i];
+      }
+      if (groups.length === 5) return; // no pair, handled by the mask tables
+
+      groups.sort((a, b) => b[0] - a[0] || b[1] - a[1]);
+      const rank = getPairedRank(groups.map(([count]) => count));
+      pairedTable!.set(
+        product,
+        rank * CATEGORY_MULTIPLIER + packTiebreak(groups.map(([, value]) => value))
+      );
+      return;
+    }
+    for (let count = 0; count <= Math.min(4, remaining); count++) {
+      counts[rankIndex] = count;
+      visit(rankIndex + 1, remaining - count);
+    }
+    counts[rankIndex] = 0;
+  };
+  visit(0, 5);
+  pairedTable.set(FIVE_ACES_PRODUCT, HandRank.FiveOfAKind * CATEGORY_MULTIPLIER + packTiebreak([14]));
+}
+
+function buildLowTable(): void {
+  // Any five distinct ranks make a low; the qualifier is applied at lookup
+  lowTable = new Int32Array(8192);
+  for (let mask = 0; mask < 8192; mask++) {
+    if (BIT_COUNT[mask] !== 5) continue;
+    let strength = 0;
+    for (let bit = 12; bit >= 0; bit--) {
+      if (mask & (1 << bit)) strength = strength * 16 + (bit + 1);
+    }
+    lowTable[mask] = strength;
+  }
+}
+
+// Best flush from any suit holding five to seven ranks
+function buildBestFlushTable(): void {
+  bestFlushTable = new Int32Array(8192);
+  for (let mask = 0; mask < 8192; mask++) {
+    if (BIT_COUNT[mask] < 5) continue;
+
+    let best = 0;
+    for (let low = 0; low <= 8; low++) {
+      const window = 0b11111 << low;
+      if ((mask & window) === window) best = Math.max(best, flushTable![window]);
+    }
+    if ((mask & WHEEL_MASK) === WHEEL_MASK) best = Math.max(best, flushTable![WHEEL_MASK]);
+
+    if (!best) {
+      // No straight flush: the five highest ranks make the flush
+      let top = mask;
+      while (BIT_COUNT[top] > 5) top &= top - 1;
+      best = flushTable![top];
+    }
+    bestFlushTable[mask] = best;
+  }
+}
+
+function evaluateRankIndices(ranks: number[]): number {
+  let mask = 0;
+  let product = 1;
+  for (const rankIndex of ranks) {
+    mask |= 1 << rankIndex;
+    product *= RANK_PRIMES[rankIndex];
+  }
+  return BIT_COUNT[mask] === 5 ? uniqueTable![mask] : pairedTable!.get(product)!;
+}
+
+// Best non-flush hand for every multiset of six or seven ranks
+function buildBestRanksTable(): void {
+  bestRanksTable = new Map();
+  const counts = new Array<number>(13).fill(0);
+
+  const visit = (rankIndex: number, remaining: number) => {
+    if (rankIndex === 13) {
+      if (remaining !== 0) return;
+      const ranks: number[] = [];
+      let product = 1;
+      for (let i = 0; i < 13; i++) {
+        for (let n = 0; n < counts[i]; n++) {
+          ranks.push(i);
+          product *= RANK_PRIMES[i];
+        }
+      }
+      let best = 0;
+      for (const combo of getIndexCombinations(ranks.length, 5)) {
+        best = Math.max(best, evaluateRankIndices(combo.map((i) => ranks[i])));
+      }
+      bestRanksTable!.set(product, best);
+      return;
+    }
+    for (let count = 0; count <= Math.min(4, remaining); count++) {
+      counts[rankIndex] = count;
+      visit(rankIndex + 1, remaining - count);
+    }
+    counts[rankIndex] = 0;
+  };
+  visit(0, 6);
+  visit(0, 7);
+}
+
+function ensureTables(): void {
+  if (flushTable) return;
+  buildDistinctRankTables();
+  buildPairedTable();
+  buildLowTable();
+}
+
+function ensureMultiCardTables(): void {
+  ensureTables();
+  if (bestFlushTable) return;
+  buildBestFlushTable();
+  buildBestRanksTable();
+}
+
+// Strength of five encoded cards on the getHandStrength scale
+export function evaluateFiveCodes(a: number, b: number, c: number, d: number, e: number): number {
+  if (!flushTable) ensureTables();
+
+  const mask = CARD_RANK_BIT[a] | CARD_RANK_BIT[b] | CARD_RANK_BIT[c] | CARD_RANK_BIT[d] | CARD_RANK_BIT[e];
+  const suit = CARD_SUIT[a];
+  if (CARD_SUIT[b] === suit && CARD_SUIT[c] === suit && CARD_SUIT[d] === suit && CARD_SUIT[e] === suit) {
+    return flushTable![mask];
+  }
+
+  const unique = uniqueTable![mask];
+  if (unique) return unique;
+
+  return pairedTable!.get(
+    CARD_PRIME[a] * CARD_PRIME[b] * CARD_PRIME[c] * CARD_PRIME[d] * CARD_PRIME[e]
+  )!;
+}
+
+// Ace-to-five low strength (lower is better), 0 when the cards don't qualify.
+// lowQualifier is the highest card allowed, 8 for 8-or-better
+export function evaluateLowFiveCodes(
+  a: number,
+  b: number,
+  c: number,
+  d: number,
+  e: number,
+  lowQualifier = 8
+): number {
+  if (!lowTable) ensureTables();
+  const mask = CARD_LOW_BIT[a] | CARD_LOW_BIT[b] | CARD_LOW_BIT[c] | CARD_LOW_BIT[d] | CARD_LOW_BIT[e];
+  return mask < (1 << lowQualifier) ? lowTable![mask] : 0;
+}
+
+const combinationCache = new Map<string, number[][]>();
+
+// Index combinations of n items taken k at a time, cached since the same shapes repeat
+export function getIndexCombinations(n: number, k: number): number[][] {
+  const key = `${n}:${k}`;
+  const cached = combinationCache.get(key);
+  if (cached) return cached;
+
+  const result: number[][] = [];
+  const current: number[] = [];
+  const visit = (start: number) => {
+    if (current.length === k) {
+      result.push([...current]);
+      return;
+    }
+    for (let i = start; i <= n - (k - current.length); i++) {
+      current.push(i);
+      visit(i + 1);
+      current.pop();
+    }
+  };
+  if (k >= 0 && k <= n) visit(0);
+
+  combinationCache.set(key, result);
+  return result;
+}
+
+// Best 5-card strength from 5, 6 or 7 encoded cards with no usage restrictions
+export function evaluateBestCodes(codes: ArrayLike<number>): number {
+  const length = codes.length;
+  if (length === 5) {
+    return evaluateFiveCodes(codes[0], codes[1], codes[2], codes[3], codes[4]);
+  }
+  if (!bestFlushTable) ensureMultiCardTables();
+
+  let product = 1;
+  let spades = 0;
+  let hearts = 0;
+  let diamonds = 0;
+  let clubs = 0;
+  for (let i = 0; i < length; i++) {
+    const code = codes[i];
+    product *= CARD_PRIME[code];
+    switch (code & 3) {
+      case 0: hearts |= CARD_RANK_BIT[code]; break;
+      case 1: diamonds |= CARD_RANK_BIT[code]; break;
+      case 2: clubs |= CARD_RANK_BIT[code]; break;
+      default: spades |= CARD_RANK_BIT[code]; break;
+    }
+  }
+
+  let best = bestRanksTable!.get(product)!;
+  // At most one suit can hold five of seven cards
+  for (const suitMask of [hearts, diamonds, clubs, spades]) {
+    if (BIT_COUNT[suitMask] >= 5) {
+      best = Math.max(best, bestFlushTable![suitMask]);
+    }
+  }
+  return best;
+}
+
+export function evaluateBestStrength(cards: Card[]): number {
+  return evaluateBestCodes(cards.map(encodeCard));
+}
+
+// Table-driven equivalent of the combination search in findBestHand.
+// holeCounts lists how many hole cards may be used, the board supplies the rest.
+// Lows are only evaluated when a lowQualifier is given
+export function findBestHandWithTables(
+  holeCards: Card[],
+  communityCards: Card[],
+  holeCounts: number[],
+  lowQualifier: number | null
+): HandEvaluation {
+  if (!lowTable) ensureTables();
+  const hole = holeCards.map(encodeCard);
+  const board = communityCards.map(encodeCard);
+  const five = [0, 0, 0, 0, 0];
+
+  let bestHighStrength = -1;
+  let bestHigh: [number[], number[]] = [[], []];
+  let bestLowStrength = 0;
+  let bestLow: [number[], number[]] | null = null;
+
+  // Low rank mask of a combination, or -1 when it is paired or holds a card above
+  // the qualifier. Computed once per combination so six-card hands (15 hole pairs
+  // against 10 board triples) skip the low lookups that can never qualify
+  const lowLimit = lowQualifier === null ? 0 : 1 << lowQualifier;
+  const getLowMask = (codes: number[], combo: number[]): number => {
+    let mask = 0;
+    for (const i of combo) mask |= CARD_LOW_BIT[codes[i]];
+    return BIT_COUNT[mask] === combo.length && mask < lowLimit ? mask : -1;
+  };
+
+  for (const holeCount of holeCounts) {
+    const holeCombos = getIndexCombinations(hole.length, holeCount);
+    const boardCombos = getIndexCombinations(board.length, 5 - holeCount);
+    const boardLowMasks = boardCombos.map((combo) => getLowMask(board, combo));
+
+    for (const holeCombo of holeCombos) {
+      for (let i = 0; i < holeCount; i++) five[i] = hole[holeCombo[i]];
+      const holeLowMask = getLowMask(hole, holeCombo);
+
+      for (let b = 0; b < boardCombos.length; b++) {
+        const boardCombo = boardCombos[b];
+        for (let i = holeCount; i < 5; i++) five[i] = board[boardCombo[i - holeCount]];
+
+        const highStrength = evaluateFiveCodes(five[0], five[1], five[2], five[3], five[4]);
+        if (highStrength > bestHighStrength) {
+          bestHighStrength = highStrength;
+          bestHigh = [holeCombo, boardCombo];
+        }
+
+        const boardLowMask = boardLowMasks[b];
+        if (holeLowMask < 0 || boardLowMask < 0 || holeLowMask & boardLowMask) continue;
+        const lowStrength = lowTable![holeLowMask | boardLowMask];
+        if (bestLow === null || lowStrength < bestLowStrength) {
+          bestLowStrength = lowStrength;
+          bestLow = [holeCombo, boardCombo];
+        }
+      }
+    }
+  }
+
+  const toCards = ([holeCombo, boardCombo]: [number[], number[]]): Card[] => [
+    ...holeCombo.map((i) => holeCards[i]),
+    ...boardCombo.map((i) => communityCards[i]),
+  ];
+
+  return {
+    bestHighHand: bestHighStrength < 0 ? [] : toCards(bestHigh),
+    bestHighRank: Math.max(0, Math.floor(bestHighStrength / CATEGORY_MULTIPLIER)) as HandRank,
+    bestHighStrength,
+    bestLowHand: bestLow ? toCards(bestLow) : null,
+    bestLowStrength: bestLow ? bestLowStrength : null,
+  };
+}
+
+const STRAIGHT_OR_FLUSH = new Set([
+  HandRank.Straight,
+  HandRank.Flush,
+  HandRank.StraightFlush,
+  HandRank.RoyalFlush,
+]);
+const SUITED = new Set([HandRank.Flush, HandRank.StraightFlush, HandRank.RoyalFlush]);
+
+// findBestHandWithTables for a hand holding the joker. Every combination that uses
+// the joker is tried with each card the joker could stand for; a 'bug' may only be
+// an ace unless it completes a straight or flush. The joker can always be an ace,
+// even with all four in play, so four aces and the joker make five aces. Any other
+// card it stands for must be one not already in the hand or on the board. In the
+// returned hands the joker keeps isJoker and takes the rank and suit it stands for
+export function findBestHandWithJoker(
+  holeCards: Card[],
+  communityCards: Card[],
+  holeCounts: number[],
+  lowQualifier: number | null,
+  jokerRule: JokerRule
+): HandEvaluation {
+  const JOKER = -1;
+  const hole = holeCards.map((card) => (card.isJoker ? JOKER : encodeCard(card)));
+  const board = communityCards.map((card) => (card.isJoker ? JOKER : encodeCard(card)));
+  const inPlay = new Set([...hole, ...board]);
+  const substitutes: number[] = [];
+  for (let code = 0; code < 52; code++) {
+    if (!inPlay.has(code) || code >> 2 === 12) substitutes.push(code);
+  }
+
+  const five = [0, 0, 0, 0, 0];
+  let bestHighStrength = -1;
+  let bestHigh: [number[], number[], number] = [[], [], JOKER];
+  let bestLowStrength = 0;
+  let bestLow: [number[], number[], number] | null = null;
+
+  const tryFive = (holeCombo: number[], boardCombo: number[], substitute: number) => {
+    const highStrength = evaluateFiveCodes(five[0], five[1], five[2], five[3], five[4]);
+    const category = Math.floor(highStrength / CATEGORY_MULTIPLIER);
+    const isBugAllowed =
+      jokerRule === 'wild' ||
+      substitute === JOKER ||
+      substitute >> 2 === 12 ||
+      STRAIGHT_OR_FLUSH.has(category);
+    // A second copy of an ace counts by rank only, so it never makes a flush
+    const isSuitAllowed = substitute === JOKER || !inPlay.has(substitute) || !SUITED.has(category);
+    if (isBugAllowed && isSuitAllowed && highStrength > bestHighStrength) {
+      bestHighStrength = highStrength;
+      bestHigh = [holeCombo, boardCombo, substitute];
+    }
+
+    if (lowQualifier === null) return;
+    // For lows the joker is the lowest card the hand is missing, under either rule
+    const lowStrength = evaluateLowFiveCodes(five[0], five[1], five[2], five[3], five[4], lowQualifier);
+    if (lowStrength && (bestLow === null || lowStrength < bestLowStrength)) {
+      bestLowStrength = lowStrength;
+      bestLow = [holeCombo, boardCombo, substitute];
+    }
+  };
+
+  for (const holeCount of holeCounts) {
+    const holeCombos = getIndexCombinations(hole.length, holeCount);
+    const boardCombos = getIndexCombinations(board.length, 5 - holeCount);
+
+    for (const holeCombo of holeCombos) {
+      for (const boardCombo of boardCombos) {
+        let jokerSlot = -1;
+        for (let i = 0; i < 5; i++) {
+          five[i] = i < holeCount ? hole[holeCombo[i]] : board[boardCombo[i - holeCount]];
+          if (five[i] === JOKER) jokerSlot = i;
+        }
+
+        if (jokerSlot < 0) {
+          tryFive(holeCombo, boardCombo, JOKER);
+          continue;
+        }
+        for (const substitute of substitutes) {
+          five[jokerSlot] = substitute;
+          tryFive(holeCombo, boardCombo, substitute);
+        }
+      }
+    }
+  }
+
+  const toCards = ([holeCombo, boardCombo, substitute]: [number[], number[], number]): Card[] =>
+    [...holeCombo.map((i) => holeCards[i]), ...boardCombo.map((i) => communityCards[i])].map(
+      (card) =>
+        card.isJoker
+          ? { ...card, rank: ALL_RANKS[substitute >> 2], suit: ALL_SUITS[substitute & 3] }
+          : card
+    );
+
+  return {
+    bestHighHand: bestHighStrength < 0 ? [] : toCards(bestHigh),
+    bestHighRank: Math.max(0, Math.floor(bestHighStrength / CATEGORY_MULTIPLIER)) as HandRank,
+    bestHighStrength,
+    bestLowHand: bestLow ? toCards(bestLow) : null,
+    bestLowStrength: bestLow ? bestLowStrength : null,
+  };
+}
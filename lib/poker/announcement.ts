@@ -0,0 +1,164 @@
+// Dealer announcements - what the dealer says when pushing the pot at showdown
+
+import { Card, Rank, getRankName, rankToLowValue, rankToValue } from '../models/Card';
+import {
+  GameVariant,
+  HandDescription,
+  HandEvaluation,
+  HandRank,
+  ShowdownResult,
+  ShowdownWinner,
+} from './types';
+import { buildHandDescription, formatHandDescription, getLowballCategory } from './HandEvaluator';
+
+export type HouseStyleId = 'casino' | 'tournament' | 'homeGame';
+
+// How a room words its announcements
+export interface HouseStyle {
+  id: HouseStyleId;
+  name: string;
+  // What players are called, e.g. "Seat 4" or "Player 4"
+  seatLabel: string;
+  // The word for dividing a pot: "split" or "chop"
+  splitVerb: string;
+  // Whether high hands are called with their kickers
+  callKickers: boolean;
+  // Both halves of a hi-lo pot in one sentence, or a sentence each
+  oneSentence: boolean;
+}
+
+export const CASINO: HouseStyle = {
+  id: 'casino',
+  name: 'Casino',
+  seatLabel: 'Seat',
+  splitVerb: 'split',
+  callKickers: true,
+  oneSentence: true,
+};
+
+export const TOURNAMENT: HouseStyle = {
+  id: 'tournament',
+  name: 'Tournament',
+  seatLabel: 'Seat',
+  splitVerb: 'split',
+  callKickers: true,
+  oneSentence: false,
+};
+
+export const HOME_GAME: HouseStyle = {
+  id: 'homeGame',
+  name: 'Home Game',
+  seatLabel: 'Player',
+  splitVerb: 'chop',
+  callKickers: false,
+  oneSentence: true,
+};
+
+export const HOUSE_STYLES: HouseStyle[] = [CASINO, TOURNAMENT, HOME_GAME];
+
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
+
+// "Seat 4", "Seats 2 and 5" or "Seats 1, 3 and 6"
+function nameSeats(winners: ShowdownWinner[], style: HouseStyle): string {
+  const seats = winners.map((winner) => winner.handIndex + 1);
+  if (seats.length === 1) return `${style.seatLabel} ${seats[0]}`;
+  return `${style.seatLabel}s ${seats.slice(0, -1).join(', ')} and ${seats[seats.length - 1]}`;
+}
+
+const CARD_COUNT_NAMES = ['', 'one', 'two', 'three'];
+
+// Ranks spoken highest first, e.g. "eight-six-five-four-ace"
+function nameRanks(cards: Card[], toValue: (rank: Rank) => number): string {
+  return [...cards]
+    .sort((a, b) => toValue(b.rank) - toValue(a.rank))
+    .map((card) => getRankName(card.rank))
+    .join('-');
+}
+
+// Categories said with an article: "a flush", but "two pair" and "aces full of kings"
+const ARTICLE_CATEGORIES = [
+  HandRank.OnePair,
+  HandRank.Straight,
+  HandRank.Flush,
+  HandRank.StraightFlush,
+  HandRank.RoyalFlush,
+];
+
+function speakDescription(description: HandDescription): string {
+  const spoken = lowerFirst(formatHandDescription(description, 'dealer'));
+  return ARTICLE_CATEGORIES.includes(description.category) ? `a ${spoken}` : spoken;
+}
+
+// A high hand as the dealer says it, e.g. "aces full of kings"
+export function speakHighHand(evaluation: HandEvaluation, style: HouseStyle = CASINO): string {
+  const description = buildHandDescription(evaluation.bestHighHand, evaluation.bestHighRank);
+  return speakDescription(style.callKickers ? description : { ...description, kickers: [] });
+}
+
+// A low hand as the dealer says it, e.g. "eight-six-five-four-ace" or "a pair of nines"
+export function speakLowHand(evaluation: HandEvaluation, variant: GameVariant): string {
+  const cards = evaluation.bestLowHand;
+  if (!cards) return 'no low';
+
+  if (variant.lowball === 'badugi') {
+    const ranks = nameRanks(cards, rankToLowValue);
+    return cards.length === 4
+      ? `a ${ranks} badugi`
+      : `a ${CARD_COUNT_NAMES[cards.length]}-card ${ranks}`;
+  }
+  if (variant.lowball) {
+    const category = getLowballCategory(cards, variant.lowball);
+    if (category !== HandRank.HighCard) {
+      return speakDescription(buildHandDescription(cards, category));
+    }
+    return nameRanks(cards, variant.lowball === 'razz' ? rankToLowValue : rankToValue);
+  }
+  return nameRanks(cards, rankToLowValue);
+}
+
+// "Seat 4 wins the high with ..." or "Seats 2 and 5 split the low with ..."
+function announceShare(
+  winners: ShowdownWinner[],
+  share: 'pot' | 'high' | 'low',
+  hand: string,
+  style: HouseStyle
+): string {
+  const seats = nameSeats(winners, style);
+  if (winners.length > 1) return `${seats} ${style.splitVerb} the ${share} with ${hand}`;
+  return share === 'pot' ? `${seats} wins with ${hand}` : `${seats} wins the ${share} with ${hand}`;
+}
+
+// The model announcement for a showdown, worded in the house style
+export function announceShowdown(
+  showdown: ShowdownResult,
+  variant: GameVariant,
+  style: HouseStyle = CASINO
+): string {
+  const { evaluations, highWinners, lowWinners } = showdown;
+  const highHand = () => speakHighHand(evaluations[highWinners[0].handIndex], style);
+  const lowHand = () => speakLowHand(evaluations[lowWinners[0].handIndex], variant);
+
+  // Lowball games play for the low alone
+  if (variant.lowball) {
+    return `${announceShare(lowWinners, 'pot', lowHand(), style)}.`;
+  }
+  if (!variant.isHiLo) {
+    return `${announceShare(highWinners, 'pot', highHand(), style)}.`;
+  }
+
+  // Without a qualifying low the high takes the whole pot
+  if (lowWinners.length === 0) {
+    const high = announceShare(highWinners, 'pot', highHand(), style);
+    return style.oneSentence ? `${high}, no low.` : `${high}. No low.`;
+  }
+  if (showdown.split === 'scoop') {
+    const seats = nameSeats(highWinners, style);
+    return `${seats} scoops, high with ${highHand()}, and low with ${lowHand()}.`;
+  }
+
+  const high = announceShare(highWinners, 'high', highHand(), style);
+  const low = announceShare(lowWinners, 'low', lowHand(), style);
+  return style.oneSentence ? `${high}, and ${lowerFirst(low)}.` : `${high}. ${low}.`;
+}
@@ -0,0 +1,141 @@
+// Counterfeited lows - a board card pairing a hole card the low was using. In the
+// Omaha games the low itself never gets worse (more board cards only add options);
+// what the pairing card takes away is its standing against the lows others can hold
+
+import {
+  Card,
+  ALL_RANKS,
+  ALL_SUITS,
+  createCard,
+  getRankDisplay,
+  getRankName,
+  isSameCard,
+  rankToLowValue,
+} from '../models/Card';
+import { GameVariant, HandEvaluation } from './types';
+import { findBestHand } from './HandEvaluator';
+import { getNutHoldingVariant } from './nuts';
+
+export interface Counterfeit {
+  street: 'turn' | 'river';
+  // The board card that paired the hole card
+  card: Card;
+  // Hole cards the low used before the card came
+  lowHoleCards: Card[];
+  // How many better lows were possible before and after the card, null for no low
+  lowRankBefore: number;
+  lowRankAfter: number | null;
+}
+
+// How many distinct lows better than lowStrength some holding could make on this
+// board; 0 means the nut low. Only the two low ranks a holding plays matter, so
+// each pair of low ranks is tried once
+export function countBetterLows(
+  board: Card[],
+  variant: GameVariant,
+  lowStrength: number,
+  lowQualifier: number | null = variant.lowQualifier
+): number {
+  if (lowQualifier === null) return 0;
+  const holdingVariant = getNutHoldingVariant(variant);
+  const lowCards = ALL_RANKS.filter((rank) => rankToLowValue(rank) <= lowQualifier).map((rank) => {
+    const suit = ALL_SUITS.find((s) => !board.some((card) => isSameCard(card, createCard(s, rank))));
+    return createCard(suit ?? ALL_SUITS[0], rank);
+  });
+
+  const better = new Set<number>();
+  for (let i = 0; i < lowCards.length; i++) {
+    for (let j = i + 1; j < lowCards.length; j++) {
+      const holding = [lowCards[i], lowCards[j]];
+      const strength = findBestHand(holding, board, holdingVariant, lowQualifier).bestLowStrength;
+      if (strength !== null && strength < lowStrength) better.add(strength);
+    }
+  }
+  return better.size;
+}
+
+function getLowHoleCards(holeCards: Card[], evaluation: HandEvaluation): Card[] {
+  return (evaluation.bestLowHand ?? [])
+    .filter((card) => holeCards.some((c) => isSameCard(c, card)))
+    .sort((a, b) => rankToLowValue(a.rank) - rankToLowValue(b.rank));
+}
+
+function pairsLowHoleCard(holeCards: Card[], card: Card, before: HandEvaluation): boolean {
+  return getLowHoleCards(holeCards, before).some((lowCard) => lowCard.rank === card.rank);
+}
+
+// Whether adding card to board pairs one of the hole cards in the hand's low and
+// leaves it without a low or further from the nut low
+export function isCounterfeitCard(
+  holeCards: Card[],
+  card: Card,
+  board: Card[],
+  before: HandEvaluation,
+  after: HandEvaluation,
+  variant: GameVariant,
+  lowQualifier: number | null = variant.lowQualifier
+): boolean {
+  if (before.bestLowStrength === null || !pairsLowHoleCard(holeCards, card, before)) return false;
+  if (after.bestLowStrength === null) return true;
+  return (
+    countBetterLows([...board, card], variant, after.bestLowStrength, lowQualifier) >
+    countBetterLows(board, variant, before.bestLowStrength, lowQualifier)
+  );
+}
+
+// Every street where the board counterfeited the hand's low, comparing each
+// street with the one before it (the flop is the first possible low)
+export function findCounterfeits(
+  holeCards: Card[],
+  board: Card[],
+  variant: GameVariant,
+  lowQualifier: number | null = variant.lowQualifier
+): Counterfeit[] {
+  if (!variant.isHiLo) return [];
+
+  const counterfeits: Counterfeit[] = [];
+  let before = findBestHand(holeCards, board.slice(0, 3), variant, lowQualifier);
+  for (let count = 4; count <= board.length; count++) {
+    const previousBoard = board.slice(0, count - 1);
+    const card = board[count - 1];
+    const after = findBestHand(holeCards, board.slice(0, count), variant, lowQualifier);
+    if (isCounterfeitCard(holeCards, card, previousBoard, before, after, variant, lowQualifier)) {
+      counterfeits.push({
+        street: count === 4 ? 'turn' : 'river',
+        card,
+        lowHoleCards: getLowHoleCards(holeCards, before),
+        lowRankBefore: countBetterLows(previousBoard, variant, before.bestLowStrength!, lowQualifier),
+        lowRankAfter:
+          after.bestLowStrength === null
+            ? null
+            : countBetterLows(board.slice(0, count), variant, after.bestLowStrength, lowQualifier),
+      });
+    }
+    before = after;
+  }
+  return counterfeits;
+}
+
+function getOrdinal(n: number): string {
+  if (n % 100 >= 11 && n % 100 <= 13) return `${n}th`;
+  switch (n % 10) {
+    case 1: return `${n}st`;
+    case 2: return `${n}nd`;
+    case 3: return `${n}rd`;
+    default: return `${n}th`;
+  }
+}
+
+// e.g. "Your A-2 was counterfeited by the deuce on the river, no longer the nut low"
+export function describeCounterfeit(counterfeit: Counterfeit): string {
+  const lowCards = counterfeit.lowHoleCards.map((card) => getRankDisplay(card.rank)).join('-');
+  const result =
+    counterfeit.lowRankAfter === null
+      ? 'leaving no low'
+      : counterfeit.lowRankBefore === 0
+        ? `no longer the nut low (now ${getOrdinal(counterfeit.lowRankAfter + 1)} best)`
+        : `dropping from the ${getOrdinal(counterfeit.lowRankBefore + 1)} ` +
+          `to the ${getOrdinal(counterfeit.lowRankAfter + 1)} best low`;
+  const cause = `the ${getRankName(counterfeit.card.rank)} on the ${counterfeit.street}`;
+  return `Your ${lowCards} was counterfeited by ${cause}, ${result}`;
+}
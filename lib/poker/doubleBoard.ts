@@ -0,0 +1,71 @@
+// Double-board games (run it twice, double-board bomb pots) - every hand plays
+// against both boards and each board wins half the pot
+
+import { Card, ALL_RANKS } from '../models/Card';
+import { Deck } from '../models/Deck';
+import { createSeed, randomInt } from '../models/Random';
+import { GameVariant, OddChipRule, PlayerHand, ShowdownResult, createPlayerHand } from './types';
+import { resolveShowdown } from './showdown';
+import { SplitPotResult, splitHiLoPot } from './splitPot';
+
+export const BOARD_COUNT = 2;
+
+export interface DoubleBoardDeal {
+  hands: PlayerHand[];
+  boards: Card[][];
+  amount: number;
+}
+
+export interface DoubleBoardResult {
+  // One split per board, each over its half of the pot
+  boards: SplitPotResult[];
+  // Total chips each hand receives across both boards
+  payouts: number[];
+}
+
+export function dealDoubleBoardHand(
+  playerCount: number,
+  variant: GameVariant,
+  seed: number = createSeed()
+): DoubleBoardDeal {
+  const deck = new Deck(ALL_RANKS, 0, { seed });
+  const boards: Card[][] = [];
+  for (let i = 0; i < BOARD_COUNT; i++) {
+    boards.push(deck.dealCards(variant.boardSize));
+  }
+  const hands: PlayerHand[] = [];
+  for (let i = 0; i < playerCount; i++) {
+    hands.push(createPlayerHand(deck.dealCards(variant.holeCards)));
+  }
+  // Bomb pots: everyone antes the same, so the pot is a multiple of the player count
+  return { hands, boards, amount: playerCount * randomInt(deck.random, 5, 60) };
+}
+
+// Winners of each board, evaluated separately
+export function resolveDoubleBoard(
+  hands: PlayerHand[],
+  boards: Card[][],
+  variant: GameVariant
+): ShowdownResult[] {
+  return boards.map((board) => resolveShowdown(hands, board, variant));
+}
+
+// Halve the pot between the boards, then split each half high and low.
+// The first board takes the odd chip when the pot doesn't halve evenly
+export function splitDoubleBoardPot(
+  amount: number,
+  hands: PlayerHand[],
+  boards: Card[][],
+  variant: GameVariant,
+  oddChipRule: OddChipRule = 'seat'
+): DoubleBoardResult {
+  const secondHalf = Math.floor(amount / 2);
+  const halves = [amount - secondHalf, secondHalf];
+  const boardResults = boards.map((board, i) =>
+    splitHiLoPot(halves[i], hands, board, variant, oddChipRule)
+  );
+  const payouts = hands.map((_, handIndex) =>
+    boardResults.reduce((total, result) => total + result.payouts[handIndex], 0)
+  );
+  return { boards: boardResults, payouts };
+}
@@ -0,0 +1,143 @@
+// Equity calculator - how often each hand wins with the rest of the board to come
+
+import { Card } from '../models/Card';
+import { Deck } from '../models/Deck';
+import { createSeededRandom } from '../models/Random';
+import { PlayerHand, GameVariant } from './types';
+import { resolveShowdown } from './showdown';
+import { getIndexCombinations } from './LookupEvaluator';
+import { getDeckRanks, getJokerCount } from './variants';
+
+// Shares from 0 to 1. high and low are the hand's share of that half, ties split
+// evenly; in games without a low, high is the share of the whole pot
+export interface HandEquity {
+  high: number;
+  low: number;
+  // Runouts where the hand takes the whole pot alone
+  scoop: number;
+}
+
+export interface EquityResult {
+  // Indexed like the hands passed in
+  equities: HandEquity[];
+  runouts: number;
+  // True when every runout was dealt, false for a Monte Carlo sample
+  exact: boolean;
+}
+
+export interface StreetEquity {
+  street: string;
+  result: EquityResult;
+}
+
+export interface EquityOptions {
+  lowQualifier?: number | null;
+  // Enumerate every runout when there are at most this many
+  maxExactRunouts?: number;
+  samples?: number;
+  seed?: number;
+}
+
+const MAX_EXACT_RUNOUTS = 2000;
+const MONTE_CARLO_SAMPLES = 2000;
+const DEFAULT_SEED = 1;
+
+function countCombinations(n: number, k: number): number {
+  if (k < 0 || k > n) return 0;
+  let count = 1;
+  for (let i = 0; i < k; i++) {
+    count = (count * (n - i)) / (i + 1);
+  }
+  return count;
+}
+
+// Cards not held by any hand or already on the board
+export function getUnseenCards(hands: PlayerHand[], board: Card[], variant: GameVariant): Card[] {
+  const deck = new Deck(getDeckRanks(variant), getJokerCount(variant));
+  for (const card of [...board, ...hands.flatMap((hand) => hand.cards)]) {
+    deck.removeCard(card);
+  }
+  return deck.dealCards(deck.remainingCount);
+}
+
+// Equity of each hand over the runouts of a partial board. Runouts are enumerated
+// when there are few enough of them, otherwise sampled with a seeded generator
+export function calculateEquity(
+  hands: PlayerHand[],
+  board: Card[],
+  variant: GameVariant,
+  options: EquityOptions = {}
+): EquityResult {
+  const {
+    lowQualifier = variant.lowQualifier,
+    maxExactRunouts = MAX_EXACT_RUNOUTS,
+    samples = MONTE_CARLO_SAMPLES,
+    seed = DEFAULT_SEED,
+  } = options;
+
+  const stub = getUnseenCards(hands, board, variant);
+  const needed = Math.max(0, variant.boardSize - board.length);
+  const totals: HandEquity[] = hands.map(() => ({ high: 0, low: 0, scoop: 0 }));
+
+  const addRunout = (runout: Card[]) => {
+    const showdown = resolveShowdown(hands, [...board, ...runout], variant, lowQualifier);
+    for (const winner of showdown.highWinners) {
+      totals[winner.handIndex].high += 1 / showdown.highWinners.length;
+    }
+    for (const winner of showdown.lowWinners) {
+      totals[winner.handIndex].low += 1 / showdown.lowWinners.length;
+    }
+    if (showdown.split === 'scoop') {
+      const winner = showdown.highWinners[0] ?? showdown.lowWinners[0];
+      totals[winner.handIndex].scoop += 1;
+    }
+  };
+
+  const exact = countCombinations(stub.length, needed) <= maxExactRunouts;
+  let runouts = 0;
+  if (exact) {
+    for (const combo of getIndexCombinations(stub.length, needed)) {
+      addRunout(combo.map((i) => stub[i]));
+      runouts++;
+    }
+  } else {
+    const random = createSeededRandom(seed);
+    const cards = [...stub];
+    for (; runouts < samples; runouts++) {
+      // Partial Fisher-Yates: only the first `needed` cards are drawn
+      for (let i = 0; i < needed; i++) {
+        const j = i + Math.floor(random() * (cards.length - i));
+        [cards[i], cards[j]] = [cards[j], cards[i]];
+      }
+      addRunout(cards.slice(0, needed));
+    }
+  }
+
+  return {
+    equities: totals.map((total) => ({
+      high: total.high / runouts,
+      low: total.low / runouts,
+      scoop: total.scoop / runouts,
+    })),
+    runouts,
+    exact,
+  };
+}
+
+// Equity before the flop, on the flop and on the turn, for reviewing a finished hand
+export function calculateStreetEquities(
+  hands: PlayerHand[],
+  board: Card[],
+  variant: GameVariant,
+  options: EquityOptions = {}
+): StreetEquity[] {
+  if (variant.boardSize === 0) return [];
+  return [
+    { street: 'Preflop', cards: 0 },
+    { street: 'Flop', cards: 3 },
+    { street: 'Turn', cards: 4 },
+  ].map(({ street, cards }) => ({
+    street,
+    result: calculateEquity(hands, board.slice(0, cards), variant, options),
+  }));
+}
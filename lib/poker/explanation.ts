@@ -0,0 +1,147 @@
+// Mistake explanations - why a picked hand did not win the half it was picked for
+
+import { Card, ALL_RANKS } from '../models/Card';
+import { GameVariant, HandAnswer, HandEvaluation, HandRank, ShowdownResult, handRankToString } from './types';
+import { describeHighHand, describeLowHand, describeLowballHand, getStrengthValues } from './HandEvaluator';
+
+// What separated the winner from the picked hand: a better category, a better main
+// rank (pair, trips, straight or flush card), the second pair (or the pair of a full
+// house), a kicker, a lower card in the low, or no qualifying low at all
+export type DecidingFactor = 'category' | 'rank' | 'secondPair' | 'kicker' | 'lowCard' | 'noLow';
+
+export interface MistakeExplanation {
+  half: HandAnswer;
+  handIndex: number;
+  // null when nobody wins the half (no qualifying low)
+  winnerIndex: number | null;
+  // The five cards each side played; null for a side with no low
+  handCards: Card[] | null;
+  winnerCards: Card[] | null;
+  factor: DecidingFactor;
+  summary: string;
+}
+
+function valueToDisplay(value: number): string {
+  return value === 1 ? 'A' : ALL_RANKS[value - 2];
+}
+
+// First position where two packed strengths differ
+function findDifference(a: number, b: number): { index: number; winner: number; loser: number } {
+  const winnerValues = getStrengthValues(a);
+  const loserValues = getStrengthValues(b);
+  const index = winnerValues.findIndex((value, i) => value !== loserValues[i]);
+  return { index, winner: winnerValues[index], loser: loserValues[index] };
+}
+
+function explainHigh(
+  handIndex: number,
+  winnerIndex: number,
+  hand: HandEvaluation,
+  winner: HandEvaluation
+): MistakeExplanation {
+  const handDescription = describeHighHand(hand, 'full');
+  const base = {
+    half: 'hi' as const,
+    handIndex,
+    winnerIndex,
+    handCards: hand.bestHighHand,
+    winnerCards: winner.bestHighHand,
+  };
+  const lead = `Hand ${winnerIndex + 1} wins high with ${describeHighHand(winner, 'full')}`;
+  const category = winner.bestHighRank;
+
+  if (hand.bestHighRank !== category) {
+    return {
+      ...base,
+      factor: 'category',
+      summary: `${lead}: ${handRankToString(category)} beats hand ${handIndex + 1}'s ${handDescription}`,
+    };
+  }
+
+  // Same category, so the first differing card value decides it
+  const { index, winner: winnerValue, loser: loserValue } = findDifference(
+    winner.bestHighStrength,
+    hand.bestHighStrength
+  );
+  const isSecondPair = index === 1 && (category === HandRank.TwoPair || category === HandRank.FullHouse);
+  const factor: DecidingFactor = index === 0 ? 'rank' : isSecondPair ? 'secondPair' : 'kicker';
+  const decidedBy =
+    factor === 'rank'
+      ? 'the higher rank'
+      : factor === 'kicker'
+        ? 'the kicker'
+        : category === HandRank.FullHouse
+          ? 'the pair'
+          : 'the second pair';
+  return {
+    ...base,
+    factor,
+    summary: `${lead}: both have ${handRankToString(category)}, ${decidedBy} decides it (${valueToDisplay(winnerValue)} over ${valueToDisplay(loserValue)}) against hand ${handIndex + 1}'s ${handDescription}`,
+  };
+}
+
+function describeLow(evaluation: HandEvaluation, variant: GameVariant): string {
+  return variant.lowball && evaluation.bestLowHand
+    ? describeLowballHand(evaluation.bestLowHand, variant.lowball)
+    : describeLowHand(evaluation);
+}
+
+function explainLow(
+  handIndex: number,
+  winnerIndex: number | null,
+  hand: HandEvaluation,
+  winner: HandEvaluation | null,
+  variant: GameVariant
+): MistakeExplanation {
+  const base = {
+    half: 'low' as const,
+    handIndex,
+    winnerIndex,
+    handCards: hand.bestLowHand,
+    winnerCards: winner?.bestLowHand ?? null,
+  };
+
+  if (winnerIndex === null || !winner) {
+    return { ...base, factor: 'noLow', summary: 'No hand makes a qualifying low' };
+  }
+
+  const winnerDescription = describeLow(winner, variant);
+  const lead = `Hand ${winnerIndex + 1} wins low with ${winnerDescription}`;
+  if (hand.bestLowStrength === null) {
+    return { ...base, factor: 'noLow', summary: `${lead}; hand ${handIndex + 1} has no qualifying low` };
+  }
+
+  // Lowball strengths aren't plain card values, so only ace-to-five lows name the card
+  const handDescription = describeLow(hand, variant);
+  if (variant.lowball || winner.bestLowStrength === null) {
+    return { ...base, factor: 'lowCard', summary: `${lead}, lower than hand ${handIndex + 1}'s ${handDescription}` };
+  }
+  const { winner: winnerValue, loser: loserValue } = findDifference(
+    winner.bestLowStrength,
+    hand.bestLowStrength
+  );
+  return {
+    ...base,
+    factor: 'lowCard',
+    summary: `${lead}, lower than hand ${handIndex + 1}'s ${handDescription} (${valueToDisplay(winnerValue)} under ${valueToDisplay(loserValue)})`,
+  };
+}
+
+// Why the hand picked for a half didn't win it, or null if it did
+export function explainMistake(
+  showdown: ShowdownResult,
+  handIndex: number,
+  half: HandAnswer,
+  variant: GameVariant
+): MistakeExplanation | null {
+  const winners = half === 'hi' ? showdown.highWinners : showdown.lowWinners;
+  if (winners.some((winner) => winner.handIndex === handIndex)) return null;
+
+  const winnerIndex = winners.length > 0 ? winners[0].handIndex : null;
+  const hand = showdown.evaluations[handIndex];
+  const winner = winnerIndex === null ? null : showdown.evaluations[winnerIndex];
+  if (half === 'hi') {
+    return winnerIndex === null || !winner ? null : explainHigh(handIndex, winnerIndex, hand, winner);
+  }
+  return explainLow(handIndex, winnerIndex, hand, winner, variant);
+}
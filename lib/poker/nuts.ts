@@ -0,0 +1,74 @@
+// Nut finder - the best possible hands on a board, found by trying every holding
+
+import { Card } from '../models/Card';
+import { GameVariant, HandEvaluation } from './types';
+import { describeHighHand, describeLowHand, findBestHand } from './HandEvaluator';
+import { getIndexCombinations } from './LookupEvaluator';
+import { getUnseenCards } from './equity';
+
+export const NUT_TIERS = 3;
+
+// One distinct hand value a holding can make on the board
+export interface NutTier {
+  strength: number;
+  description: string;
+  // A holding that makes this hand
+  example: Card[];
+}
+
+export interface NutsResult {
+  // Best first: the nuts, second nuts, third nuts
+  high: NutTier[];
+  // Best first, empty when no low is possible
+  low: NutTier[];
+}
+
+// Only the hole cards that can play matter, so every holding of that many cards
+// covers the bigger Omaha hands too (which must use exactly two)
+export function getNutHoldingVariant(variant: GameVariant): GameVariant {
+  return { ...variant, holeCards: variant.maxHoleCardsUsed, discard: null };
+}
+
+function addTier(tiers: Map<number, NutTier>, strength: number, describe: () => string, holding: Card[]) {
+  if (!tiers.has(strength)) {
+    tiers.set(strength, { strength, description: describe(), example: holding });
+  }
+}
+
+// Every distinct high and low a player could hold on this board, best first,
+// trimmed to the requested number of tiers
+export function findNuts(
+  board: Card[],
+  variant: GameVariant,
+  lowQualifier: number | null = variant.lowQualifier,
+  tierCount: number = NUT_TIERS
+): NutsResult {
+  const holdingVariant = getNutHoldingVariant(variant);
+  const unseen = getUnseenCards([], board, variant);
+  const highTiers = new Map<number, NutTier>();
+  const lowTiers = new Map<number, NutTier>();
+
+  for (const combo of getIndexCombinations(unseen.length, holdingVariant.holeCards)) {
+    const holding = combo.map((i) => unseen[i]);
+    const evaluation = findBestHand(holding, board, holdingVariant, lowQualifier);
+    addTier(highTiers, evaluation.bestHighStrength, () => describeHighHand(evaluation), holding);
+    if (variant.isHiLo && evaluation.bestLowStrength !== null) {
+      addTier(lowTiers, evaluation.bestLowStrength, () => describeLowHand(evaluation), holding);
+    }
+  }
+
+  return {
+    high: [...highTiers.values()].sort((a, b) => b.strength - a.strength).slice(0, tierCount),
+    low: [...lowTiers.values()].sort((a, b) => a.strength - b.strength).slice(0, tierCount),
+  };
+}
+
+// Evaluate a trainee's holding the same way findNuts does
+export function evaluateHolding(
+  holding: Card[],
+  board: Card[],
+  variant: GameVariant,
+  lowQualifier: number | null = variant.lowQualifier
+): HandEvaluation {
+  return findBestHand(holding, board, getNutHoldingVariant(variant), lowQualifier);
+}
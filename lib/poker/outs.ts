@@ -0,0 +1,86 @@
+// Outs analyzer - which next-street cards turn a trailing hand into the winner
+
+import { Card, SUIT_RANKING, isSameCard, rankToValue } from '../models/Card';
+import { PlayerHand, GameVariant } from './types';
+import { resolveShowdown, isHighWinner, isLowWinner } from './showdown';
+import { getUnseenCards } from './equity';
+import { isCounterfeitCard } from './counterfeit';
+
+export interface HandOuts {
+  // Whether the hand already holds (or shares) the best high or low on this board
+  leadsHigh: boolean;
+  leadsLow: boolean;
+  // Cards that make a trailing hand the best high or low on the next street, ties included
+  highOuts: Card[];
+  lowOuts: Card[];
+  // Cards that pair a hole card the hand's low uses, leaving it further from the nut low or without one
+  counterfeits: Card[];
+}
+
+export interface OutsGrade {
+  correct: Card[];
+  missed: Card[];
+  wrong: Card[];
+}
+
+// Next-street outs for every hand on a partial board (the flop or turn)
+export function findOuts(
+  hands: PlayerHand[],
+  board: Card[],
+  variant: GameVariant,
+  lowQualifier: number | null = variant.lowQualifier
+): HandOuts[] {
+  const current = resolveShowdown(hands, board, variant, lowQualifier);
+  const outs: HandOuts[] = hands.map((_, handIndex) => ({
+    leadsHigh: isHighWinner(current, handIndex),
+    leadsLow: isLowWinner(current, handIndex),
+    highOuts: [],
+    lowOuts: [],
+    counterfeits: [],
+  }));
+  if (board.length >= variant.boardSize) return outs;
+
+  for (const card of sortCards(getUnseenCards(hands, board, variant))) {
+    const next = resolveShowdown(hands, [...board, card], variant, lowQualifier);
+
+    outs.forEach((handOuts, handIndex) => {
+      if (!handOuts.leadsHigh && isHighWinner(next, handIndex)) {
+        handOuts.highOuts.push(card);
+      }
+      if (!variant.isHiLo) return;
+      if (!handOuts.leadsLow && isLowWinner(next, handIndex)) {
+        handOuts.lowOuts.push(card);
+      }
+      if (
+        isCounterfeitCard(
+          hands[handIndex].cards,
+          card,
+          board,
+          current.evaluations[handIndex],
+          next.evaluations[handIndex],
+          variant,
+          lowQualifier
+        )
+      ) {
+        handOuts.counterfeits.push(card);
+      }
+    });
+  }
+  return outs;
+}
+
+// Highest rank first, then suit, as the cards are listed to the trainee
+export function sortCards(cards: Card[]): Card[] {
+  return [...cards].sort(
+    (a, b) => rankToValue(b.rank) - rankToValue(a.rank) || SUIT_RANKING[b.suit] - SUIT_RANKING[a.suit]
+  );
+}
+
+// Compare the trainee's picked outs with the computed list
+export function gradeOuts(picked: Card[], outs: Card[]): OutsGrade {
+  return {
+    correct: picked.filter((card) => outs.some((out) => isSameCard(out, card))),
+    missed: outs.filter((out) => !picked.some((card) => isSameCard(out, card))),
+    wrong: picked.filter((card) => !outs.some((out) => isSameCard(out, card))),
+  };
+}
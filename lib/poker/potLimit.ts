@@ -0,0 +1,214 @@
+// Pot-limit betting sequences and maximum raise calculation
+
+import { createSeed, createSeededRandom, randomInt } from '../models/Random';
+
+export type BettingActionType = 'smallBlind' | 'bigBlind' | 'fold' | 'check' | 'call' | 'raise';
+
+export interface BettingAction {
+  seat: number;
+  type: BettingActionType;
+  // Total the player has in front of them on this street after the action
+  amount: number;
+}
+
+export interface PotLimitScenario {
+  playerCount: number;
+  smallBlind: number;
+  bigBlind: number;
+  actions: BettingAction[];
+  actorSeat: number;
+}
+
+export interface BettingState {
+  pot: number;
+  currentBet: number;
+  lastRaiseSize: number;
+  bets: Record<number, number>;
+  folded: Set<number>;
+  acted: Set<number>;
+}
+
+export interface PotLimitRaise {
+  toCall: number;
+  potAfterCall: number;
+  maxRaiseTo: number;
+}
+
+export const BLIND_OPTIONS: [number, number][] = [
+  [1, 2],
+  [2, 5],
+  [5, 10],
+  [25, 50],
+];
+
+// Seat 1 is the small blind, seat 2 the big blind, the last seat the button
+export function getPositionName(seat: number, playerCount: number): string {
+  if (seat === 1) return 'SB';
+  if (seat === 2) return 'BB';
+  if (seat === playerCount) return 'BTN';
+  if (seat === playerCount - 1 && playerCount > 4) return 'CO';
+  if (seat === playerCount - 2 && playerCount > 6) return 'HJ';
+  return seat === 3 ? 'UTG' : `UTG+${seat - 3}`;
+}
+
+// Replay the actions to get the pot and each player's bet
+export function getBettingState(actions: BettingAction[]): BettingState {
+  const state: BettingState = {
+    pot: 0,
+    currentBet: 0,
+    lastRaiseSize: 0,
+    bets: {},
+    folded: new Set(),
+    acted: new Set(),
+  };
+
+  for (const action of actions) {
+    const previous = state.bets[action.seat] ?? 0;
+
+    switch (action.type) {
+      case 'smallBlind':
+        state.bets[action.seat] = action.amount;
+        state.pot += action.amount;
+        state.currentBet = Math.max(state.currentBet, action.amount);
+        break;
+      case 'bigBlind':
+        state.bets[action.seat] = action.amount;
+        state.pot += action.amount;
+        state.lastRaiseSize = action.amount;
+        state.currentBet = action.amount;
+        break;
+      case 'fold':
+        state.folded.add(action.seat);
+        state.acted.add(action.seat);
+        break;
+      case 'check':
+        state.acted.add(action.seat);
+        break;
+      case 'call':
+        state.bets[action.seat] = action.amount;
+        state.pot += action.amount - previous;
+        state.acted.add(action.seat);
+        break;
+      case 'raise':
+        state.lastRaiseSize = action.amount - state.currentBet;
+        state.currentBet = action.amount;
+        state.bets[action.seat] = action.amount;
+        state.pot += action.amount - previous;
+        // Everyone else has to act again
+        state.acted = new Set([action.seat]);
+        break;
+    }
+  }
+
+  return state;
+}
+
+// The most the actor may raise to: call first, then raise the size of the pot
+export function getMaxPotLimitRaise(actions: BettingAction[], actorSeat: number): PotLimitRaise {
+  const state = getBettingState(actions);
+  const toCall = state.currentBet - (state.bets[actorSeat] ?? 0);
+  const potAfterCall = state.pot + toCall;
+  return {
+    toCall,
+    potAfterCall,
+    maxRaiseTo: state.currentBet + potAfterCall,
+  };
+}
+
+export function getMinRaise(actions: BettingAction[]): number {
+  const state = getBettingState(actions);
+  return state.currentBet + state.lastRaiseSize;
+}
+
+function isActionClosed(state: BettingState, playerCount: number): boolean {
+  const active: number[] = [];
+  for (let seat = 1; seat <= playerCount; seat++) {
+    if (!state.folded.has(seat)) active.push(seat);
+  }
+  if (active.length <= 1) return true;
+  return active.every(
+    (seat) => state.acted.has(seat) && (state.bets[seat] ?? 0) === state.currentBet
+  );
+}
+
+function nextSeat(seat: number, playerCount: number): number {
+  return (seat % playerCount) + 1;
+}
+
+// Generate a preflop sequence of limps, raises and calls, stopping with action on a live player
+export function generatePotLimitScenario(
+  playerCount: number,
+  seed: number = createSeed(),
+  blinds?: [number, number]
+): PotLimitScenario {
+  const random = createSeededRandom(seed);
+  const [smallBlind, bigBlind] =
+    blinds ?? BLIND_OPTIONS[randomInt(random, 0, BLIND_OPTIONS.length - 1)];
+
+  for (;;) {
+    const actions: BettingAction[] = [
+      { seat: 1, type: 'smallBlind', amount: smallBlind },
+      { seat: 2, type: 'bigBlind', amount: bigBlind },
+    ];
+    const targetActions = randomInt(random, 1, playerCount + 2);
+    let raiseCount = 0;
+    let seat = 3 > playerCount ? 1 : 3;
+
+    for (let i = 0; i < targetActions; i++) {
+      const state = getBettingState(actions);
+      if (isActionClosed(state, playerCount)) break;
+
+      const previous = state.bets[seat] ?? 0;
+      const roll = random();
+
+      if (roll < 0.3 && raiseCount < 3) {
+        const minRaise = state.currentBet + state.lastRaiseSize;
+        const { maxRaiseTo } = getMaxPotLimitRaise(actions, seat);
+        // Half the raises are full pot, the rest somewhere in between, in whole small blinds
+        const amount =
+          random() < 0.5
+            ? maxRaiseTo
+            : Math.min(maxRaiseTo, Math.ceil(randomInt(random, minRaise, maxRaiseTo) / smallBlind) * smallBlind);
+        actions.push({ seat, type: 'raise', amount });
+        raiseCount++;
+      } else if (roll < 0.65 || state.currentBet === previous) {
+        actions.push({
+          seat,
+          type: state.currentBet === previous ? 'check' : 'call',
+          amount: state.currentBet,
+        });
+      } else {
+        actions.push({ seat, type: 'fold', amount: previous });
+      }
+
+      // Skip players who have already folded
+      const afterState = getBettingState(actions);
+      do {
+        seat = nextSeat(seat, playerCount);
+      } while (afterState.folded.has(seat));
+    }
+
+    const finalState = getBettingState(actions);
+    if (!isActionClosed(finalState, playerCount)) {
+      return { playerCount, smallBlind, bigBlind, actions, actorSeat: seat };
+    }
+  }
+}
+
+export function describeBettingAction(action: BettingAction, playerCount: number): string {
+  const position = getPositionName(action.seat, playerCount);
+  switch (action.type) {
+    case 'smallBlind':
+      return `${position} posts ${action.amount}`;
+    case 'bigBlind':
+      return `${position} posts ${action.amount}`;
+    case 'fold':
+      return `${position} folds`;
+    case 'check':
+      return `${position} checks`;
+    case 'call':
+      return `${position} calls ${action.amount}`;
+    case 'raise':
+      return `${position} raises to ${action.amount}`;
+  }
+}
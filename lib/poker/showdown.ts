@@ -0,0 +1,97 @@
+// Showdown resolution - every tied high and low winner plus how the pot splits
+
+import { Card } from '../models/Card';
+import { PlayerHand, HandEvaluation, ShowdownResult, ShowdownWinner, PotSplit, GameVariant } from './types';
+import { findBestHand } from './HandEvaluator';
+
+// Indices of every hand tied for the best high
+export function findHighWinnerIndices(evaluations: HandEvaluation[]): number[] {
+  const best = Math.max(...evaluations.map((e) => e.bestHighStrength));
+  return evaluations
+    .map((e, i) => (e.bestHighStrength === best ? i : -1))
+    .filter((i) => i >= 0);
+}
+
+// Indices of every hand tied for the best qualifying low, empty when there is no low
+export function findLowWinnerIndices(evaluations: HandEvaluation[]): number[] {
+  const lows = evaluations
+    .map((e) => e.bestLowStrength)
+    .filter((strength): strength is number => strength !== null);
+  if (lows.length === 0) return [];
+
+  const best = Math.min(...lows);
+  return evaluations
+    .map((e, i) => (e.bestLowStrength === best ? i : -1))
+    .filter((i) => i >= 0);
+}
+
+function getPotSplit(highWinners: number[], lowWinners: number[]): PotSplit {
+  if (highWinners.length === 0) {
+    return lowWinners.length === 1 ? 'scoop' : 'split';
+  }
+  if (lowWinners.length === 0) {
+    return highWinners.length === 1 ? 'scoop' : 'split';
+  }
+  if (highWinners.length === 1 && lowWinners.length === 1 && highWinners[0] === lowWinners[0]) {
+    return 'scoop';
+  }
+
+  // Count shares in units of 1 / (4 * highs * lows), so a quarter is exactly highs * lows units.
+  // Two hands tying both halves each take half, which is a split rather than a quarter
+  const highs = highWinners.length;
+  const lows = lowWinners.length;
+  const winners = new Set([...highWinners, ...lowWinners]);
+  for (const index of winners) {
+    const share =
+      (highWinners.includes(index) ? 2 * lows : 0) + (lowWinners.includes(index) ? 2 * highs : 0);
+    if (share === highs * lows) return 'quartered';
+  }
+  return 'split';
+}
+
+// Resolve a showdown between hands sharing a board
+export function resolveShowdown(
+  hands: PlayerHand[],
+  board: Card[],
+  variant: GameVariant,
+  lowQualifier: number | null = variant.lowQualifier
+): ShowdownResult {
+  const evaluations = hands.map((hand) => findBestHand(hand.cards, board, variant, lowQualifier));
+  return resolveEvaluations(evaluations, variant.isHiLo, variant.lowball !== null);
+}
+
+// Resolve a showdown from already evaluated hands, for games without a shared board.
+// Lowball games award everything to the low, so they have no high winners
+export function resolveEvaluations(
+  evaluations: HandEvaluation[],
+  isHiLo: boolean,
+  isLowball: boolean = false
+): ShowdownResult {
+  const highIndices = isLowball ? [] : findHighWinnerIndices(evaluations);
+  // Low halves only exist in the hi/lo games
+  const lowIndices = isHiLo || isLowball ? findLowWinnerIndices(evaluations) : [];
+
+  const highWinners: ShowdownWinner[] = highIndices.map((handIndex) => ({
+    handIndex,
+    cards: evaluations[handIndex].bestHighHand,
+  }));
+  const lowWinners: ShowdownWinner[] = lowIndices.map((handIndex) => ({
+    handIndex,
+    cards: evaluations[handIndex].bestLowHand!,
+  }));
+
+  return {
+    evaluations,
+    highWinners,
+    lowWinners,
+    split: getPotSplit(highIndices, lowIndices),
+  };
+}
+
+export function isHighWinner(result: ShowdownResult, handIndex: number): boolean {
+  return result.highWinners.some((w) => w.handIndex === handIndex);
+}
+
+export function isLowWinner(result: ShowdownResult, handIndex: number): boolean {
+  return result.lowWinners.some((w) => w.handIndex === handIndex);
+}
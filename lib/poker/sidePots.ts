@@ -0,0 +1,187 @@
+// Side pot construction and awarding
+
+import { Card, ALL_RANKS } from '../models/Card';
+import { Deck } from '../models/Deck';
+import { createSeed, randomInt } from '../models/Random';
+import { PlayerHand, createPlayerHand } from './types';
+import { resolveShowdown } from './showdown';
+import { HOLDEM } from './variants';
+
+// Smallest chip in play; all stacks, pots and odd chips are multiples of this
+export const SIDE_POT_CHIP_UNIT = 5;
+
+export interface SidePotPlayer {
+  seat: number;
+  stack: number;
+  contribution: number;
+  folded: boolean;
+  allIn: boolean;
+  hand: PlayerHand;
+}
+
+export interface Pot {
+  amount: number;
+  eligibleSeats: number[];
+}
+
+export interface PotAward {
+  pot: Pot;
+  winnerSeats: number[];
+  payouts: Record<number, number>;
+}
+
+export interface SidePotDeal {
+  players: SidePotPlayer[];
+  communityCards: Card[];
+}
+
+// Deal a Hold'em hand where players with different stacks are all-in
+export function dealSidePotHand(playerCount: number, seed: number = createSeed()): SidePotDeal {
+  const deck = new Deck(ALL_RANKS, 0, { seed });
+  const communityCards = deck.dealCards(5);
+
+  // Distinct stacks guarantee at least one side pot among the live players
+  const stacks = new Set<number>();
+  while (stacks.size < playerCount) {
+    stacks.add(randomInt(deck.random, 4, 60) * 25);
+  }
+  const stackList = [...stacks];
+
+  // With four or more players, sometimes one folds and leaves dead money behind
+  const foldedSeat =
+    playerCount >= 4 && deck.random() < 0.5 ? randomInt(deck.random, 1, playerCount) : null;
+
+  const liveStacks = stackList
+    .filter((_, i) => i + 1 !== foldedSeat)
+    .sort((a, b) => b - a);
+  // The biggest stack can only be called up to the second biggest
+  const betLevel = liveStacks[1];
+
+  const players: SidePotPlayer[] = stackList.map((stack, i) => {
+    const seat = i + 1;
+    const hand = createPlayerHand(deck.dealCards(2));
+
+    if (seat === foldedSeat) {
+      const maxUnits = Math.max(1, Math.floor(Math.min(stack, betLevel) / SIDE_POT_CHIP_UNIT / 2));
+      return {
+        seat,
+        stack,
+        contribution: randomInt(deck.random, 1, maxUnits) * SIDE_POT_CHIP_UNIT,
+        folded: true,
+        allIn: false,
+        hand,
+      };
+    }
+
+    return {
+      seat,
+      stack,
+      contribution: Math.min(stack, betLevel),
+      folded: false,
+      allIn: stack <= betLevel,
+      hand,
+    };
+  });
+
+  return { players, communityCards };
+}
+
+// Build the main pot followed by each side pot, smallest all-in first
+export function buildPots(players: SidePotPlayer[]): Pot[] {
+  const live = players.filter((p) => !p.folded);
+  if (live.length === 0) return [];
+
+  const levels = new Set<number>(live.filter((p) => p.allIn).map((p) => p.contribution));
+  levels.add(Math.max(...live.map((p) => p.contribution)));
+  const sortedLevels = [...levels].sort((a, b) => a - b);
+
+  const pots: Pot[] = [];
+  let previousLevel = 0;
+
+  for (const level of sortedLevels) {
+    let amount = 0;
+    for (const player of players) {
+      amount += Math.max(0, Math.min(player.contribution, level) - previousLevel);
+    }
+    const eligibleSeats = live
+      .filter((p) => p.contribution >= level)
+      .map((p) => p.seat)
+      .sort((a, b) => a - b);
+
+    if (amount > 0) {
+      const last = pots[pots.length - 1];
+      if (last && last.eligibleSeats.join(',') === eligibleSeats.join(',')) {
+        // Same players contesting - this is still the same pot
+        last.amount += amount;
+      } else {
+        pots.push({ amount, eligibleSeats });
+      }
+    }
+    previousLevel = level;
+  }
+
+  // A pot only one player is eligible for is an uncalled bet, not a pot
+  const lastPot = pots[pots.length - 1];
+  if (pots.length > 1 && lastPot.eligibleSeats.length === 1) {
+    pots.pop();
+  }
+
+  return pots;
+}
+
+// Compare the trainee's pots with the correct ones, in order
+export function arePotsEqual(expected: Pot[], answered: Pot[]): boolean {
+  if (expected.length !== answered.length) return false;
+  return expected.every((pot, i) => isPotEqual(pot, answered[i]));
+}
+
+export function isPotEqual(expected: Pot, answered: Pot): boolean {
+  if (expected.amount !== answered.amount) return false;
+  const expectedSeats = [...expected.eligibleSeats].sort((a, b) => a - b);
+  const answeredSeats = [...answered.eligibleSeats].sort((a, b) => a - b);
+  return expectedSeats.join(',') === answeredSeats.join(',');
+}
+
+// Award each pot to the best high hand among its eligible players
+export function awardPots(
+  pots: Pot[],
+  players: SidePotPlayer[],
+  communityCards: Card[]
+): PotAward[] {
+  return pots.map((pot) => {
+    const contenders = pot.eligibleSeats.map(
+      (seat) => players.find((p) => p.seat === seat)!
+    );
+    const showdown = resolveShowdown(
+      contenders.map((p) => p.hand),
+      communityCards,
+      HOLDEM
+    );
+    const winnerSeats = showdown.highWinners
+      .map((w) => contenders[w.handIndex].seat)
+      .sort((a, b) => a - b);
+
+    return { pot, winnerSeats, payouts: splitPot(pot.amount, winnerSeats) };
+  });
+}
+
+// Split a pot evenly, odd chips go to the first winners left of the button
+function splitPot(amount: number, winnerSeats: number[]): Record<number, number> {
+  const payouts: Record<number, number> = {};
+  const units = amount / SIDE_POT_CHIP_UNIT;
+  const share = Math.floor(units / winnerSeats.length);
+  let oddChips = units % winnerSeats.length;
+
+  for (const seat of winnerSeats) {
+    payouts[seat] = share * SIDE_POT_CHIP_UNIT;
+    if (oddChips > 0) {
+      payouts[seat] += SIDE_POT_CHIP_UNIT;
+      oddChips--;
+    }
+  }
+  return payouts;
+}
+
+export function getPotName(index: number): string {
+  return index === 0 ? 'Main Pot' : `Side Pot ${index}`;
+}
@@ -0,0 +1,110 @@
+// Hi/lo pot splitting with quartering, scooping and odd chips
+
+import { Card, SUIT_RANKING, rankToValue, ALL_RANKS } from '../models/Card';
+import { Deck } from '../models/Deck';
+import { createSeed, randomInt } from '../models/Random';
+import { PlayerHand, PotSplit, GameVariant, OddChipRule, createPlayerHand } from './types';
+import { resolveShowdown } from './showdown';
+
+export interface SplitPotResult {
+  amount: number;
+  highWinners: number[];
+  lowWinners: number[];
+  // Chips each hand receives, indexed like the hands passed in
+  payouts: number[];
+  split: PotSplit;
+}
+
+export interface SplitPotDeal {
+  hands: PlayerHand[];
+  communityCards: Card[];
+  amount: number;
+}
+
+function getHighestCardValue(cards: Card[]): number {
+  return Math.max(...cards.map((card) => rankToValue(card.rank) * 4 + SUIT_RANKING[card.suit]));
+}
+
+// Order winners so the ones entitled to odd chips come first
+function orderForOddChips(winners: number[], hands: PlayerHand[], rule: OddChipRule): number[] {
+  if (rule === 'seat') {
+    return [...winners].sort((a, b) => a - b);
+  }
+  return [...winners].sort(
+    (a, b) => getHighestCardValue(hands[b].cards) - getHighestCardValue(hands[a].cards)
+  );
+}
+
+function distribute(
+  amount: number,
+  winners: number[],
+  hands: PlayerHand[],
+  rule: OddChipRule,
+  payouts: number[]
+): void {
+  const share = Math.floor(amount / winners.length);
+  let oddChips = amount % winners.length;
+  for (const index of orderForOddChips(winners, hands, rule)) {
+    payouts[index] += share;
+    if (oddChips > 0) {
+      payouts[index] += 1;
+      oddChips--;
+    }
+  }
+}
+
+// Split a hi/lo pot; hands are in seat order starting left of the button
+export function splitHiLoPot(
+  amount: number,
+  hands: PlayerHand[],
+  communityCards: Card[],
+  variant: GameVariant,
+  oddChipRule: OddChipRule
+): SplitPotResult {
+  const showdown = resolveShowdown(hands, communityCards, variant);
+  const highWinners = showdown.highWinners.map((w) => w.handIndex);
+  const lowWinners = showdown.lowWinners.map((w) => w.handIndex);
+  const payouts = hands.map(() => 0);
+
+  if (lowWinners.length === 0) {
+    distribute(amount, highWinners, hands, oddChipRule, payouts);
+  } else {
+    // The odd chip between the halves always goes to the high
+    const lowHalf = Math.floor(amount / 2);
+    distribute(amount - lowHalf, highWinners, hands, oddChipRule, payouts);
+    distribute(lowHalf, lowWinners, hands, oddChipRule, payouts);
+  }
+
+  return { amount, highWinners, lowWinners, payouts, split: showdown.split };
+}
+
+// Deal hi/lo hands until the pot is chopped at least three ways (or occasionally scooped)
+export function dealSplitPotHand(
+  playerCount: number,
+  variant: GameVariant,
+  oddChipRule: OddChipRule,
+  seed: number = createSeed(),
+  maxAttempts: number = 200
+): SplitPotDeal {
+  let deal: SplitPotDeal | null = null;
+  // One generator for every attempt, so the seed picks out the whole search
+  const deck = new Deck(ALL_RANKS, 0, { seed });
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    deck.reset();
+    const communityCards = deck.dealCards(variant.boardSize);
+    const hands: PlayerHand[] = [];
+    for (let i = 0; i < playerCount; i++) {
+      hands.push(createPlayerHand(deck.dealCards(variant.holeCards)));
+    }
+    // Odd-sized pots make the odd-chip placement matter
+    deal = { hands, communityCards, amount: randomInt(deck.random, 15, 250) * 2 + randomInt(deck.random, 0, 1) };
+
+    const result = splitHiLoPot(deal.amount, hands, communityCards, variant, oddChipRule);
+    const recipients = result.payouts.filter((p) => p > 0).length;
+    if (recipients >= 3 || result.split === 'quartered') return deal;
+    if (result.split === 'scoop' && deck.random() < 0.03) return deal;
+  }
+
+  return deal!;
+}
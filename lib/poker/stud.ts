@@ -0,0 +1,142 @@
+// Seven Card Stud and Stud Hi/Lo - dealing, bring-in, first to act and showdown
+
+import { Card, SUIT_RANKING, rankToValue, ALL_RANKS } from '../models/Card';
+import { Deck } from '../models/Deck';
+import { createSeed } from '../models/Random';
+import { HandRank, PlayerHand, ShowdownResult, StudStreet, createPlayerHand } from './types';
+import { findBestStudHand } from './HandEvaluator';
+import { resolveEvaluations } from './showdown';
+
+export interface StudGame {
+  id: 'stud' | 'studHiLo';
+  name: string;
+  isHiLo: boolean;
+  lowQualifier: number | null;
+}
+
+export const STUD: StudGame = {
+  id: 'stud',
+  name: 'Stud',
+  isHiLo: false,
+  lowQualifier: null,
+};
+
+export const STUD_HI_LO: StudGame = {
+  id: 'studHiLo',
+  name: 'Stud/8',
+  isHiLo: true,
+  lowQualifier: 8,
+};
+
+export const STUD_GAMES: StudGame[] = [STUD, STUD_HI_LO];
+
+export const STUD_STREETS: StudStreet[] = ['third', 'fourth', 'fifth', 'sixth', 'seventh'];
+
+// Two down and one up on third street, up cards through sixth, seventh street down
+const FACE_UP_BY_CARD = [false, false, true, true, true, true, false];
+
+// Eight players can run out of cards by seventh street, so the drill stops at seven
+export const MAX_STUD_PLAYERS = 7;
+
+// Seats are numbered from the dealer's left, so seat order breaks first-to-act ties
+export interface StudPlayer {
+  seat: number;
+  hand: PlayerHand;
+}
+
+// Deal all seven cards up front; streets only control how many are shown
+export function dealStudHand(playerCount: number, seed: number = createSeed()): StudPlayer[] {
+  const deck = new Deck(ALL_RANKS, 0, { seed });
+  const players: StudPlayer[] = [];
+  for (let seat = 1; seat <= Math.min(playerCount, MAX_STUD_PLAYERS); seat++) {
+    players.push({ seat, hand: createPlayerHand(deck.dealCards(7)) });
+  }
+  return players;
+}
+
+export function getStreetCardCount(street: StudStreet): number {
+  return STUD_STREETS.indexOf(street) + 3;
+}
+
+export function isFaceUp(cardIndex: number): boolean {
+  return FACE_UP_BY_CARD[cardIndex];
+}
+
+// Cards the player has been dealt by this street
+export function getStreetCards(player: StudPlayer, street: StudStreet): Card[] {
+  return player.hand.cards.slice(0, getStreetCardCount(street));
+}
+
+export function getUpCards(player: StudPlayer, street: StudStreet): Card[] {
+  return getStreetCards(player, street).filter((_, i) => isFaceUp(i));
+}
+
+// The lowest door card brings it in; aces are high and clubs is the lowest suit
+export function findBringIn(players: StudPlayer[]): number {
+  const doorCardValue = (player: StudPlayer) => {
+    const door = player.hand.cards[2];
+    return rankToValue(door.rank) * 4 + SUIT_RANKING[door.suit];
+  };
+  return players.reduce((lowest, player) =>
+    doorCardValue(player) < doorCardValue(lowest) ? player : lowest
+  ).seat;
+}
+
+// Strength of the up cards on board. Only pairs, trips and quads count
+// when fewer than five cards show - straights and flushes don't
+export function getShowingStrength(upCards: Card[]): number {
+  const counts = new Map<number, number>();
+  for (const card of upCards) {
+    const value = rankToValue(card.rank);
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  const groups = [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0]);
+  const pairCount = groups.filter(([, count]) => count === 2).length;
+
+  let category = HandRank.HighCard;
+  if (groups[0][1] === 4) category = HandRank.FourOfAKind;
+  else if (groups[0][1] === 3) category = HandRank.ThreeOfAKind;
+  else if (pairCount === 2) category = HandRank.TwoPair;
+  else if (pairCount === 1) category = HandRank.OnePair;
+
+  let strength = category;
+  for (const [value, count] of groups) {
+    for (let i = 0; i < count; i++) strength = strength * 16 + value;
+  }
+  return strength;
+}
+
+// Third street starts with the bring-in; later streets with the best hand showing
+export function findFirstToAct(players: StudPlayer[], street: StudStreet): number {
+  if (street === 'third') return findBringIn(players);
+
+  let first = players[0];
+  let bestStrength = getShowingStrength(getUpCards(first, street));
+  for (const player of players.slice(1)) {
+    const strength = getShowingStrength(getUpCards(player, street));
+    // Ties go to the player closest to the dealer's left, who is already first
+    if (strength > bestStrength) {
+      first = player;
+      bestStrength = strength;
+    }
+  }
+  return first.seat;
+}
+
+// Best five of seven for every player; winners are indexed like the players
+export function resolveStudShowdown(players: StudPlayer[], game: StudGame): ShowdownResult {
+  const evaluations = players.map((player) =>
+    findBestStudHand(player.hand.cards, game.isHiLo ? game.lowQualifier : null)
+  );
+  return resolveEvaluations(evaluations, game.isHiLo);
+}
+
+export function getStreetName(street: StudStreet): string {
+  switch (street) {
+    case 'third': return 'Third Street';
+    case 'fourth': return 'Fourth Street';
+    case 'fifth': return 'Fifth Street';
+    case 'sixth': return 'Sixth Street';
+    case 'seventh': return 'Seventh Street';
+  }
+}
@@ -1,6 +1,6 @@
 // Poker hand types matching Swift implementation
 
-import { Card } from '../models/Card';
+import { Card, Rank } from '../models/Card';
 
 export enum HandRank {
   HighCard = 0,
@@ -13,6 +13,8 @@ export enum HandRank {
   FourOfAKind = 7,
   StraightFlush = 8,
   RoyalFlush = 9,
+  // Only made with the joker: four aces and the joker playing as the fifth
+  FiveOfAKind = 10,
 }
 
 export function handRankToString(rank: HandRank): string {
@@ -27,13 +29,110 @@ export function handRankToString(rank: HandRank): string {
     case HandRank.FourOfAKind: return 'Four of a Kind';
     case HandRank.StraightFlush: return 'Straight Flush';
     case HandRank.RoyalFlush: return 'Royal Flush';
+    case HandRank.FiveOfAKind: return 'Five of a Kind';
   }
 }
 
+export type GameVariantId =
+  | 'holdem'
+  | 'omahaHi'
+  | 'omahaHiLo'
+  | 'fiveCardPloHiLo'
+  | 'bigO'
+  | 'sixCardPlo'
+  | 'pineapple'
+  | 'crazyPineapple'
+  | 'razz'
+  | 'deuceToSeven'
+  | 'badugi'
+  | 'shortDeck'
+  | 'shortDeckTrips';
+
+// Low-only games: 'razz' is ace-to-five with no qualifier, 'deuceToSeven' plays aces
+// high and counts straights and flushes against the hand, 'badugi' plays up to four
+// cards of different suits and ranks
+export type LowballRule = 'razz' | 'deuceToSeven' | 'badugi';
+
+// Short-deck (6+) ranking: A-6-7-8-9 is the low straight and a flush beats a full house.
+// Some rooms also rank three of a kind above a straight
+export interface ShortDeckRules {
+  tripsBeatStraight: boolean;
+}
+
+// 'wild' plays the joker as any card; 'bug' only completes straights and flushes
+// and otherwise counts as an ace
+export type JokerRule = 'wild' | 'bug';
+
+// 'seat' gives odd chips to the first winner left of the button,
+// 'suit' to the winner holding the highest card by rank then suit
+export type OddChipRule = 'seat' | 'suit';
+
+// When each player throws away one hole card: before the flop (Pineapple) or
+// after it (Crazy Pineapple)
+export type DiscardTiming = 'beforeFlop' | 'afterFlop';
+
+// Rules of a community-card game: how hands are dealt and which cards may play
+export interface GameVariant {
+  id: GameVariantId;
+  name: string;
+  holeCards: number;
+  minHoleCardsUsed: number;
+  maxHoleCardsUsed: number;
+  boardSize: number;
+  isHiLo: boolean;
+  // Highest card allowed in a qualifying low (8 for 8-or-better), null when there is no low
+  lowQualifier: number | null;
+  // Set for lowball games, where the whole pot goes to the best low
+  lowball: LowballRule | null;
+  // Set for games dealt from the 36-card short deck
+  shortDeck: ShortDeckRules | null;
+  // Set when a joker is added to the deck
+  joker: JokerRule | null;
+  // Set when one hole card is discarded before hands are read
+  discard: DiscardTiming | null;
+}
+
 export interface HandEvaluation {
   bestHighHand: Card[];
   bestHighRank: HandRank;
+  // Higher is better, see getHandStrength
+  bestHighStrength: number;
   bestLowHand: Card[] | null;
+  // Lower is better, see getLowHandStrength
+  bestLowStrength: number | null;
+}
+
+// How much a hand description says: 'short' is the compact label ("Pair-K"), 'dealer'
+// is the showdown announcement ("Pair of kings, ace-queen-nine") and 'full' is the
+// label with every rank that breaks a tie ("Pair-K/A-Q-9")
+export type DescriptionVerbosity = 'short' | 'dealer' | 'full';
+
+// A five-card hand broken into everything that decides its value
+export interface HandDescription {
+  category: HandRank;
+  // Ranks that make the category, most important first: the trips then the pair of a
+  // full house, both pairs, or the top card of a straight, flush or high card
+  primaryRanks: Rank[];
+  // The remaining ranks, highest first
+  kickers: Rank[];
+  // The five cards, in the order described
+  cards: Card[];
+}
+
+// How the pot is divided at showdown
+export type PotSplit = 'scoop' | 'split' | 'quartered';
+
+export interface ShowdownWinner {
+  handIndex: number;
+  // The five cards the winner played
+  cards: Card[];
+}
+
+export interface ShowdownResult {
+  evaluations: HandEvaluation[];
+  highWinners: ShowdownWinner[];
+  lowWinners: ShowdownWinner[];
+  split: PotSplit;
 }
 
 export interface PlayerHand {
@@ -52,10 +151,36 @@ export type HandAnswer = 'hi' | 'low';
 
 export type RoundStatus = 'incomplete' | 'correct' | 'failed';
 
-export type RevealStage = 'ready' | 'flop' | 'turn' | 'river' | 'fullGame';
+export type RevealStage = 'ready' | 'discard' | 'flop' | 'turn' | 'river' | 'fullGame';
+
+export type SidePotStage = 'build' | 'award';
+
+// Stud deals each player their own cards street by street instead of sharing a board
+export type StudStreet = 'third' | 'fourth' | 'fifth' | 'sixth' | 'seventh';
+
+export type StudStage = StudStreet | 'showdown';
 
 export interface RoundResult {
   isCorrect: boolean;
   timeTaken: number;
   date: string;
+  // Low qualifier the round was read with; absent for games without a low
+  lowQualifier?: number;
+  // Seed the round was dealt from; with the deal settings below it recreates the deal
+  seed?: number;
+  // Seed of hands redealt onto the board dealt from seed
+  redealSeed?: number;
+  // Game the round was dealt in: a GameVariantId, or the stud game's id
+  variantId?: string;
+  playerCount?: number;
+  // Set when the deck held the joker
+  joker?: JokerRule;
+  // Set for split-pot drills, where it decides who gets the odd chip
+  oddChipRule?: OddChipRule;
 }
+
+// What a screen needs to record so a round can be dealt again
+export type DealSettings = Pick<
+  RoundResult,
+  'seed' | 'variantId' | 'playerCount' | 'joker' | 'oddChipRule'
+>;
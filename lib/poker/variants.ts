@@ -0,0 +1,272 @@
+// Named game presets
+
+import { ALL_RANKS, Rank, SHORT_DECK_RANKS } from '../models/Card';
+import { GameVariant, GameVariantId, JokerRule, RevealStage } from './types';
+
+export const HOLDEM: GameVariant = {
+  id: 'holdem',
+  name: "Hold'em",
+  holeCards: 2,
+  // The trainer always has at least one hole card play, so the board never plays
+  minHoleCardsUsed: 1,
+  maxHoleCardsUsed: 2,
+  boardSize: 5,
+  isHiLo: false,
+  lowQualifier: null,
+  lowball: null,
+  shortDeck: null,
+  joker: null,
+  discard: null,
+};
+
+export const OMAHA_HI: GameVariant = {
+  id: 'omahaHi',
+  name: 'Omaha Hi',
+  holeCards: 4,
+  minHoleCardsUsed: 2,
+  maxHoleCardsUsed: 2,
+  boardSize: 5,
+  isHiLo: false,
+  lowQualifier: null,
+  lowball: null,
+  shortDeck: null,
+  joker: null,
+  discard: null,
+};
+
+export const OMAHA_HI_LO: GameVariant = {
+  id: 'omahaHiLo',
+  name: 'Omaha/8',
+  holeCards: 4,
+  minHoleCardsUsed: 2,
+  maxHoleCardsUsed: 2,
+  boardSize: 5,
+  isHiLo: true,
+  lowQualifier: 8,
+  lowball: null,
+  shortDeck: null,
+  joker: null,
+  discard: null,
+};
+
+export const FIVE_CARD_PLO_HI_LO: GameVariant = {
+  id: 'fiveCardPloHiLo',
+  name: '5-Card PLO8',
+  holeCards: 5,
+  minHoleCardsUsed: 2,
+  maxHoleCardsUsed: 2,
+  boardSize: 5,
+  isHiLo: true,
+  lowQualifier: 8,
+  lowball: null,
+  shortDeck: null,
+  joker: null,
+  discard: null,
+};
+
+export const BIG_O: GameVariant = {
+  id: 'bigO',
+  name: 'Big O',
+  holeCards: 5,
+  minHoleCardsUsed: 2,
+  maxHoleCardsUsed: 2,
+  boardSize: 5,
+  isHiLo: true,
+  lowQualifier: 8,
+  lowball: null,
+  shortDeck: null,
+  joker: null,
+  discard: null,
+};
+
+export const SIX_CARD_PLO: GameVariant = {
+  id: 'sixCardPlo',
+  name: '6-Card PLO',
+  holeCards: 6,
+  minHoleCardsUsed: 2,
+  maxHoleCardsUsed: 2,
+  boardSize: 5,
+  isHiLo: false,
+  lowQualifier: null,
+  lowball: null,
+  shortDeck: null,
+  joker: null,
+  discard: null,
+};
+
+// Three hole cards, one thrown away; what is left plays like Hold'em
+export const PINEAPPLE: GameVariant = {
+  ...HOLDEM,
+  id: 'pineapple',
+  name: 'Pineapple',
+  holeCards: 3,
+  discard: 'beforeFlop',
+};
+
+export const CRAZY_PINEAPPLE: GameVariant = {
+  ...PINEAPPLE,
+  id: 'crazyPineapple',
+  name: 'Crazy Pineapple',
+  discard: 'afterFlop',
+};
+
+// Lowball games are played here without a board: the best five of the player's own cards
+export const RAZZ: GameVariant = {
+  id: 'razz',
+  name: 'Razz',
+  holeCards: 7,
+  minHoleCardsUsed: 5,
+  maxHoleCardsUsed: 5,
+  boardSize: 0,
+  isHiLo: false,
+  lowQualifier: null,
+  lowball: 'razz',
+  shortDeck: null,
+  joker: null,
+  discard: null,
+};
+
+export const DEUCE_TO_SEVEN: GameVariant = {
+  id: 'deuceToSeven',
+  name: '2-7 Lowball',
+  holeCards: 5,
+  minHoleCardsUsed: 5,
+  maxHoleCardsUsed: 5,
+  boardSize: 0,
+  isHiLo: false,
+  lowQualifier: null,
+  lowball: 'deuceToSeven',
+  shortDeck: null,
+  joker: null,
+  discard: null,
+};
+
+export const BADUGI: GameVariant = {
+  id: 'badugi',
+  name: 'Badugi',
+  holeCards: 4,
+  minHoleCardsUsed: 1,
+  maxHoleCardsUsed: 4,
+  boardSize: 0,
+  isHiLo: false,
+  lowQualifier: null,
+  lowball: 'badugi',
+  shortDeck: null,
+  joker: null,
+  discard: null,
+};
+
+export const SHORT_DECK: GameVariant = {
+  id: 'shortDeck',
+  name: 'Short Deck',
+  holeCards: 2,
+  minHoleCardsUsed: 1,
+  maxHoleCardsUsed: 2,
+  boardSize: 5,
+  isHiLo: false,
+  lowQualifier: null,
+  lowball: null,
+  shortDeck: { tripsBeatStraight: false },
+  joker: null,
+  discard: null,
+};
+
+export const SHORT_DECK_TRIPS: GameVariant = {
+  ...SHORT_DECK,
+  id: 'shortDeckTrips',
+  name: 'Short Deck (Trips > Straight)',
+  shortDeck: { tripsBeatStraight: true },
+  joker: null,
+  discard: null,
+};
+
+export const GAME_VARIANTS: GameVariant[] = [
+  HOLDEM,
+  OMAHA_HI,
+  OMAHA_HI_LO,
+  FIVE_CARD_PLO_HI_LO,
+  BIG_O,
+  SIX_CARD_PLO,
+  PINEAPPLE,
+  CRAZY_PINEAPPLE,
+  RAZZ,
+  DEUCE_TO_SEVEN,
+  BADUGI,
+  SHORT_DECK,
+  SHORT_DECK_TRIPS,
+];
+
+export function getGameVariant(id: GameVariantId): GameVariant {
+  return GAME_VARIANTS.find((variant) => variant.id === id) ?? HOLDEM;
+}
+
+// How many hole cards may be combined with the board, fewest first
+export function getHoleCardCounts(variant: GameVariant): number[] {
+  const counts: number[] = [];
+  for (let count = variant.minHoleCardsUsed; count <= variant.maxHoleCardsUsed; count++) {
+    if (count <= variant.holeCards && 5 - count <= variant.boardSize) {
+      counts.push(count);
+    }
+  }
+  return counts;
+}
+
+// Whether the trainee has to pick which hole cards play with the board (Omaha)
+export function picksHoleCards(variant: GameVariant): boolean {
+  return variant.boardSize > 0 && variant.holeCards > variant.maxHoleCardsUsed;
+}
+
+export function getDeckRanks(variant: GameVariant): Rank[] {
+  return variant.shortDeck ? SHORT_DECK_RANKS : ALL_RANKS;
+}
+
+export function getJokerCount(variant: GameVariant): number {
+  return variant.joker ? 1 : 0;
+}
+
+// The joker is only played in full-deck community games
+export function supportsJoker(variant: GameVariant): boolean {
+  return variant.boardSize > 0 && !variant.shortDeck && !variant.lowball;
+}
+
+export function withJoker(variant: GameVariant, joker: JokerRule | null): GameVariant {
+  return { ...variant, joker: supportsJoker(variant) ? joker : null };
+}
+
+// Most hands that can be dealt from one deck
+export function getMaxHands(variant: GameVariant): number {
+  const deckSize = getDeckRanks(variant).length * 4 + getJokerCount(variant);
+  return Math.floor((deckSize - variant.boardSize) / variant.holeCards);
+}
+
+// Whether hands are read for a low, either as half of a hi/lo pot or the whole lowball pot
+export function playsLow(variant: GameVariant): boolean {
+  return variant.isHiLo || variant.lowball !== null;
+}
+
+// The game as read at showdown, once any discard has been made
+export function getPlayedVariant(variant: GameVariant): GameVariant {
+  return variant.discard
+    ? { ...variant, holeCards: variant.holeCards - 1, discard: null }
+    : variant;
+}
+
+// Steps of the reveal flow, with the discard before or after the flop
+export function getRevealStages(variant: GameVariant): RevealStage[] {
+  if (variant.boardSize === 0) return ['fullGame'];
+  switch (variant.discard) {
+    case 'beforeFlop':
+      return ['ready', 'discard', 'flop', 'turn', 'river', 'fullGame'];
+    case 'afterFlop':
+      return ['ready', 'flop', 'discard', 'turn', 'river', 'fullGame'];
+    default:
+      return ['ready', 'flop', 'turn', 'river', 'fullGame'];
+  }
+}
+
+// Qualifier that lets any five unpaired ranks make a low (king is the highest rank)
+export const ANY_LOW = 13;
+
+export function getLowQualifierName(lowQualifier: number): string {
+  return lowQualifier >= ANY_LOW ? 'Any low' : `${lowQualifier}-or-better`;
+}
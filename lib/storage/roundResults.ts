@@ -3,12 +3,26 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { RoundResult } from '../poker/types';
 
-const STORAGE_KEY = 'HandReadingRoundResults';
+export type TrainingModule = 'handReading' | 'sidePot' | 'threeX' | 'potLimit' | 'stud' | 'doubleBoard' | 'nuts' | 'announce';
+
+// Each training module keeps its own history so stats don't bleed together
+const STORAGE_KEYS: Record<TrainingModule, string> = {
+  handReading: 'HandReadingRoundResults',
+  sidePot: 'SidePotRoundResults',
+  threeX: 'ThreeXRoundResults',
+  potLimit: 'PotLimitRoundResults',
+  stud: 'StudRoundResults',
+  doubleBoard: 'DoubleBoardRoundResults',
+  nuts: 'NutsRoundResults',
+  announce: 'AnnounceRoundResults',
+};
 const MAX_RESULTS = 20;
 
-export async function loadRoundResults(): Promise<RoundResult[]> {
+export async function loadRoundResults(
+  module: TrainingModule = 'handReading'
+): Promise<RoundResult[]> {
   try {
-    const data = await AsyncStorage.getItem(STORAGE_KEY);
+    const data = await AsyncStorage.getItem(STORAGE_KEYS[module]);
     if (data) {
       return JSON.parse(data) as RoundResult[];
     }
@@ -19,23 +33,26 @@ export async function loadRoundResults(): Promise<RoundResult[]> {
   }
 }
 
-export async function saveRoundResult(result: RoundResult): Promise<void> {
+export async function saveRoundResult(
+  result: RoundResult,
+  module: TrainingModule = 'handReading'
+): Promise<void> {
   try {
-    const results = await loadRoundResults();
+    const results = await loadRoundResults(module);
     results.push(result);
 
     // Keep only last MAX_RESULTS results
     const trimmedResults = results.slice(-MAX_RESULTS);
 
-    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(trimmedResults));
+    await AsyncStorage.setItem(STORAGE_KEYS[module], JSON.stringify(trimmedResults));
   } catch (error) {
     console.error('Error saving round result:', error);
   }
 }
 
-export async function resetStats(): Promise<void> {
+export async function resetStats(module: TrainingModule = 'handReading'): Promise<void> {
   try {
-    await AsyncStorage.removeItem(STORAGE_KEY);
+    await AsyncStorage.removeItem(STORAGE_KEYS[module]);
   } catch (error) {
     console.error('Error resetting stats:', error);
   }
@@ -0,0 +1,280 @@
+/**
+ * Cross-checks the lookup-table evaluator against the reference evaluator,
+ * checks short deck strengths against an independent ordering,
+ * then measures how many hands per second it resolves.
+ *
+ * Usage: npm run benchmark [-- --full]
+ *   --full  compare all 2,598,960 five-card hands (and all 376,992 short deck hands)
+ *           instead of a random sample
+ */
+
+import { Card, ALL_RANKS, ALL_SUITS, SHORT_DECK_RANKS, createCard, rankToValue } from '../lib/models/Card';
+import { getHandStrength, findBestHand, findBestHandReference } from '../lib/poker/HandEvaluator';
+import { ShortDeckRules } from '../lib/poker/types';
+import { GAME_VARIANTS } from '../lib/poker/variants';
+import {
+  encodeCard,
+  evaluateFiveCodes,
+  evaluateBestCodes,
+  evaluateBestStrength,
+  getIndexCombinations,
+} from '../lib/poker/LookupEvaluator';
+
+// Short deck always takes the reference path, so there is nothing to compare
+const TABLE_VARIANTS = GAME_VARIANTS.filter((variant) => !variant.shortDeck);
+
+const SHORT_DECK_RULES: ShortDeckRules[] = [{ tripsBeatStraight: false }, { tripsBeatStraight: true }];
+
+const SAMPLE_HANDS = 200_000;
+const SAMPLE_DEALS = 20_000;
+const BENCHMARK_HANDS = 2_000_000;
+
+const deck: Card[] = [];
+for (const suit of ALL_SUITS) {
+  for (const rank of ALL_RANKS) {
+    deck.push(createCard(suit, rank));
+  }
+}
+
+const shortDeck = deck.filter((card) => SHORT_DECK_RANKS.includes(card.rank));
+
+function sampleCards(count: number, from: Card[] = deck): Card[] {
+  const cards = [...from];
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(Math.random() * (cards.length - i));
+    [cards[i], cards[j]] = [cards[j], cards[i]];
+  }
+  return cards.slice(0, count);
+}
+
+function describe(cards: Card[]): string {
+  return cards.map((c) => `${c.rank}${c.suit[0]}`).join(' ');
+}
+
+function checkFiveCardHands(full: boolean): number {
+  let mismatches = 0;
+  const check = (cards: Card[]) => {
+    const codes = cards.map(encodeCard);
+    const expected = getHandStrength(cards);
+    const actual = evaluateFiveCodes(codes[0], codes[1], codes[2], codes[3], codes[4]);
+    if (expected !== actual) {
+      mismatches++;
+      if (mismatches <= 10) {
+        console.error(`  mismatch ${describe(cards)}: reference ${expected}, table ${actual}`);
+      }
+    }
+  };
+
+  if (full) {
+    for (const combo of getIndexCombinations(52, 5)) {
+      check(combo.map((i) => deck[i]));
+    }
+  } else {
+    for (let i = 0; i < SAMPLE_HANDS; i++) {
+      check(sampleCards(5));
+    }
+  }
+  return mismatches;
+}
+
+function checkSevenCardHands(): number {
+  let mismatches = 0;
+  for (let i = 0; i < SAMPLE_HANDS / 10; i++) {
+    const cards = sampleCards(6 + (i % 2));
+    const expected = Math.max(
+      ...getIndexCombinations(cards.length, 5).map((combo) => getHandStrength(combo.map((j) => cards[j])))
+    );
+    const actual = evaluateBestStrength(cards);
+    if (expected !== actual) {
+      mismatches++;
+      if (mismatches <= 10) {
+        console.error(`  mismatch ${describe(cards)}: reference ${expected}, table ${actual}`);
+      }
+    }
+  }
+  return mismatches;
+}
+
+function checkBestHands(): number {
+  let mismatches = 0;
+  for (let i = 0; i < SAMPLE_DEALS; i++) {
+    const variant = TABLE_VARIANTS[i % TABLE_VARIANTS.length];
+    const cards = sampleCards(variant.holeCards + variant.boardSize);
+    const hole = cards.slice(0, variant.holeCards);
+    const board = cards.slice(variant.holeCards);
+
+    const expected = findBestHandReference(hole, board, variant);
+    const actual = findBestHand(hole, board, variant);
+    if (
+      expected.bestHighStrength !== actual.bestHighStrength ||
+      expected.bestLowStrength !== actual.bestLowStrength
+    ) {
+      mismatches++;
+      if (mismatches <= 10) {
+        console.error(`  mismatch (${variant.name}) ${describe(hole)} | ${describe(board)}`);
+      }
+    }
+  }
+  return mismatches;
+}
+
+// Short deck ranking written out independently of HandEvaluator: the category from
+// weakest to strongest, then the ranks by how often they appear and how high they are.
+// A-6-7-8-9 is the lowest straight, topped by the nine
+function getShortDeckKey(cards: Card[], rules: ShortDeckRules): number[] {
+  const counts = new Map<number, number>();
+  for (const card of cards) {
+    const value = rankToValue(card.rank);
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  const groups = [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0]);
+  const values = groups.map(([value]) => value);
+  const shape = groups.map(([, count]) => count).join('');
+
+  const isFlush = cards.every((card) => card.suit === cards[0].suit);
+  let straightTop = 0;
+  if (values.length === 5) {
+    if (values[0] - values[4] === 4) straightTop = values[0];
+    else if (values.join() === '14,9,8,7,6') straightTop = 9;
+  }
+
+  const order = [
+    'high card',
+    'pair',
+    'two pair',
+    ...(rules.tripsBeatStraight ? ['straight', 'trips'] : ['trips', 'straight']),
+    'full house',
+    'flush',
+    'quads',
+    'straight flush',
+  ];
+  let category: string;
+  if (straightTop && isFlush) category = 'straight flush';
+  else if (shape === '41') category = 'quads';
+  else if (isFlush) category = 'flush';
+  else if (shape === '32') category = 'full house';
+  else if (straightTop) category = 'straight';
+  else if (shape === '311') category = 'trips';
+  else if (shape === '221') category = 'two pair';
+  else if (shape === '2111') category = 'pair';
+  else category = 'high card';
+
+  return [order.indexOf(category), ...(straightTop ? [straightTop] : values)];
+}
+
+function compareKeys(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const difference = (a[i] ?? 0) - (b[i] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+// Sort hands by the independent key, then expect getHandStrength to rise with it
+// and to tie exactly where the keys tie
+function checkShortDeckHands(full: boolean): number {
+  const hands = full
+    ? getIndexCombinations(shortDeck.length, 5).map((combo) => combo.map((i) => shortDeck[i]))
+    : Array.from({ length: SAMPLE_HANDS / 4 }, () => sampleCards(5, shortDeck));
+
+  let mismatches = 0;
+  for (const rules of SHORT_DECK_RULES) {
+    const ranked = hands
+      .map((cards) => ({ cards, key: getShortDeckKey(cards, rules), strength: getHandStrength(cards, rules) }))
+      .sort((a, b) => compareKeys(a.key, b.key));
+
+    for (let i = 1; i < ranked.length; i++) {
+      const previous = ranked[i - 1];
+      const current = ranked[i];
+      const tied = compareKeys(previous.key, current.key) === 0;
+      if (tied ? current.strength !== previous.strength : current.strength <= previous.strength) {
+        mismatches++;
+        if (mismatches <= 10) {
+          const label = rules.tripsBeatStraight ? 'trips over straight' : 'straight over trips';
+          console.error(
+            `  mismatch (${label}) ${describe(previous.cards)} vs ${describe(current.cards)}: ` +
+              `${previous.strength} then ${current.strength}`
+          );
+        }
+      }
+    }
+  }
+  return mismatches;
+}
+
+function benchmark(label: string, count: number, run: () => void): void {
+  const start = performance.now();
+  run();
+  const seconds = (performance.now() - start) / 1000;
+  const perSecond = Math.round(count / seconds).toLocaleString('en-US');
+  console.log(`  ${label}: ${count.toLocaleString('en-US')} in ${seconds.toFixed(2)}s (${perSecond}/s)`);
+}
+
+function main(): void {
+  const full = process.argv.includes('--full');
+
+  console.log(full ? 'Checking every 5-card hand...' : `Checking ${SAMPLE_HANDS} random 5-card hands...`);
+  const fiveCardMismatches = checkFiveCardHands(full);
+  console.log(`Checking ${SAMPLE_HANDS / 10} random 6- and 7-card hands...`);
+  const sevenCardMismatches = checkSevenCardHands();
+  console.log(`Checking ${SAMPLE_DEALS} random deals across the game variants...`);
+  const bestHandMismatches = checkBestHands();
+  console.log(
+    full
+      ? 'Checking every short deck hand under both trips rules...'
+      : `Checking ${SAMPLE_HANDS / 4} random short deck hands under both trips rules...`
+  );
+  const shortDeckMismatches = checkShortDeckHands(full);
+
+  // Pre-encode random hands so the timing measures only the evaluator
+  const fiveCodes = new Int32Array(BENCHMARK_HANDS * 5);
+  for (let i = 0; i < BENCHMARK_HANDS; i++) {
+    const codes = sampleCards(5).map(encodeCard);
+    fiveCodes.set(codes, i * 5);
+  }
+  const sevenCodes = new Int32Array(BENCHMARK_HANDS * 7);
+  for (let i = 0; i < BENCHMARK_HANDS; i++) {
+    sevenCodes.set(sampleCards(7).map(encodeCard), i * 7);
+  }
+
+  console.log('Benchmark:');
+  let checksum = 0;
+  benchmark('5-card table lookups', BENCHMARK_HANDS, () => {
+    for (let i = 0; i < fiveCodes.length; i += 5) {
+      checksum += evaluateFiveCodes(
+        fiveCodes[i],
+        fiveCodes[i + 1],
+        fiveCodes[i + 2],
+        fiveCodes[i + 3],
+        fiveCodes[i + 4]
+      );
+    }
+  });
+  benchmark('7-card table lookups', BENCHMARK_HANDS, () => {
+    for (let i = 0; i < sevenCodes.length; i += 7) {
+      checksum += evaluateBestCodes(sevenCodes.subarray(i, i + 7));
+    }
+  });
+  benchmark('5-card reference evaluator', SAMPLE_HANDS / 4, () => {
+    for (let i = 0; i < SAMPLE_HANDS / 4; i++) {
+      const offset = i * 5;
+      checksum += getHandStrength(
+        Array.from(fiveCodes.subarray(offset, offset + 5), (code) => deck[(code & 3) * 13 + (code >> 2)])
+      );
+    }
+  });
+  // Keep the work observable so it isn't optimised away
+  if (checksum === 0) console.log('  (empty checksum)');
+
+  const mismatches = fiveCardMismatches + sevenCardMismatches + bestHandMismatches + shortDeckMismatches;
+  if (mismatches > 0) {
+    console.error(
+      `FAILED: ${fiveCardMismatches} 5-card, ${sevenCardMismatches} 6/7-card, ` +
+        `${bestHandMismatches} best-hand and ${shortDeckMismatches} short deck mismatches`
+    );
+    process.exit(1);
+  }
+  console.log('Lookup evaluator matches the reference evaluator, and short deck matches its independent ordering.');
+}
+
+main();